@@ -0,0 +1,240 @@
+// api/_director.ts (underscore: a shared module, not a serverless function)
+import type { VercelResponse } from '@vercel/node';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import type { MapConfig } from '../src/types/MapConfig.js';
+// Shared with the worker. Node ESM needs the extension; these modules have no runtime imports of their own
+import { validateMapConfig, describeConfigFix, type ConfigFix } from '../src/types/MapConfigSchema.js';
+import { stabilizeRoomIds, describeConfigChanges } from '../src/types/MapConfigDiff.js';
+import { NO_PROGRESS, type ProgressCallback } from '../src/types/Progress.js';
+import type { LLMProvider } from './_providers.js';
+
+// Furniture catalog shared with the generators (bundled via vercel.json includeFiles)
+interface FurnitureEntry {
+  id: string;
+  aliases: string[];
+  width: number;
+  height: number;
+}
+
+interface FurnitureGroupEntry {
+  id: string;
+  items: { id: string; min: number; max: number }[];
+}
+
+const describeFurnitureCatalog = (): string => {
+  try {
+    const catalog = JSON.parse(readFileSync(join(process.cwd(), 'src/data/furniture.json'), 'utf-8')) as { items: FurnitureEntry[]; groups?: FurnitureGroupEntry[] };
+    const items = catalog.items
+      .map(item => `- ${item.id} (${item.width}x${item.height})${item.aliases.length ? `, also: ${item.aliases.join(', ')}` : ''}`);
+    const groups = (catalog.groups ?? [])
+      .map(group => `- ${group.id} (set: ${group.items.map(m => `${m.min === m.max ? m.min : `${m.min}-${m.max}`}x ${m.id}`).join(', ')})`);
+    return [...items, ...groups].join('\n         ');
+  } catch (error) {
+    console.warn('[GeminiDirector] Furniture catalog unavailable, prompt will not list furniture.', error);
+    return '';
+  }
+};
+
+const buildSystemPrompt = (): string => {
+  const furnitureList = describeFurnitureCatalog();
+  return `
+      You are an AI Dungeon Master Architect. 
+      Your goal is to generate a JSON configuration for a battle map based on the user's description.
+      
+      CRITICAL RULES:
+      1. Output MUST be valid JSON only. No markdown.
+      2. 'type': 'structured' (buildings), 'organic' (caves/nature), 'geometric' (ships/temples), 'dungeon' (classic rooms + winding corridors).
+      3. 'tone': 'Normal', 'Sepia', 'Night', 'Toxic'.
+      4. Architecture Logic:
+         - For 'Modern/Minimalist': Use Open Plan. Living Room connects directly to Kitchen/Bedrooms. No long hallways.
+         - For 'Mansion/Office': Use Corridors/Foyers.
+         - For 'Boarding House/Hotel': Use a central Corridor connecting to many small rooms.
+      5. 'width' and 'height': 30-60 (Give enough space).
+      
+      SCHEMA:
+      {
+        "type": "structured" | "organic" | "geometric" | "dungeon",
+        "tone": "Normal" | "Sepia" | "Night" | "Toxic",
+        "width": number,
+        "height": number,
+        "shape": "ellipse" | "cross" | "octagon" | "ring" | "ship", (optional, 'geometric' only)
+        "layout": "spine" | "hub" | "cluster" | "force", (optional, 'structured' only)
+        "rooms": [
+          { 
+            "id": "r1", 
+            "name": "Foyer", 
+            "type": "entrance", 
+            "width": 8, 
+            "height": 6, 
+            "connections": ["r2"], 
+            "furniture": ["rug", "plant"] 
+          },
+          { 
+            "id": "r2", 
+            "name": "Main Hallway", 
+            "type": "corridor", 
+            "width": 20, 
+            "height": 2, 
+            "connections": ["r1", "r3"], 
+            "furniture": [] 
+          },
+          { 
+            "id": "r3", 
+            "name": "Cellar", 
+            "type": "storage", 
+            "level": -1, 
+            "width": 6, 
+            "height": 6, 
+            "connections": ["r2"], 
+            "furniture": ["chest"] 
+          }
+        ],
+        "description": "Short summary of the map"
+      }
+      
+      ARCHITECTURAL RULES (STRICT):
+      1. LAYOUT STRATEGY (CRITICAL):
+         - **MANSION/SCHOOL/OFFICE/HOTEL**: You MUST use a **"SPINE"** layout.
+           - Create a central room named exactly "Main Corridor" or "Hallway" (Type: 'corridor').
+           - This corridor must be LONG (e.g., width 20, height 2).
+           - Connect all other rooms to this Corridor.
+         - **MODERN HOUSE/APARTMENT**: You MUST use a **"HUB"** layout.
+           - Create a central room named "Living Room" or "Lobby" (Type: 'common').
+           - Connect Bedroom, Kitchen, etc., directly to this Hub.
+         - **CABIN/HUT**: Use "Cluster" layout (one big room + small partitions).
+         - **IRREGULAR/SPRAWLING (no clear corridor or hub)**: Set "layout": "force". Rooms are pulled together along 'connections', so list every real adjacency.
+         - **DUNGEON/CRYPT/TOMB/LAIR/SEWER/PRISON**: Use type 'dungeon'.
+           - Rooms are separate chambers; corridors are generated automatically, so do NOT add corridor rooms.
+           - 'connections' define which chambers get a corridor between them. Keep it a connected graph, loops are welcome.
+           - Use 4-10 chambers of 4x4 to 10x8.
+         - **SHIP/CATHEDRAL/TEMPLE/ARENA/TOWER**: Use type 'geometric' and pick a 'shape':
+           - 'ship' (vessels), 'cross' (cathedrals/churches), 'ring' (arenas), 'octagon' (towers/keeps), 'ellipse' (anything else).
+           - The FIRST room sits on the central axis (Bridge/Altar); every other room is mirrored left/right.
+      
+      2. DIMENSION RULES:
+         - **'width' and 'height' are MANDATORY.**
+         - Corridors: Must be long/thin (e.g., 15x2, 20x3).
+         - Rooms: Integers only (e.g., 6x6, 8x5).
+
+      3. LEVEL RULES (MULTI-STOREY, 'structured' only):
+         - 'level' is optional. 0 = ground floor (default), -1 = basement/cellar, 1 = first upper floor, 2 = second...
+         - Use levels when the user mentions a basement, cellar, attic, upstairs, tower floors, etc.
+         - Every level must contain at least one room connected to a room on the level directly above or below it.
+           That connection becomes a staircase, so connect a Hallway/Foyer to the Basement, not a Bathroom.
+         - Levels must be consecutive (no level 2 without level 1).
+${furnitureList ? `
+      4. FURNITURE RULES:
+         - Use ONLY these furniture ids in 'furniture' (anything else is not placed):
+         ${furnitureList}
+         - Repeat an id to place several (e.g. ["bed", "bed", "chest"]). Sets (e.g. "dining_set") place all their items together.
+         - Don't overfill: the footprints (WxH) must fit inside the room with space to walk.
+         - 'fire', 'torch', 'candles' and 'lamp' give light. For 'Night' (dark) maps, light the rooms the party will use.
+` : ''}    `;
+};
+
+const REFINE_RULES = `
+      EDIT MODE (overrides the output format above):
+      You receive the CURRENT config and an edit instruction. Apply ONLY that edit.
+      1. Output JSON only: { "config": <the complete edited config>, "summary": "one sentence describing the edit" }
+      2. Keep every existing room's 'id' EXACTLY as it is. New rooms get new ids (e.g. the next free "rN").
+      3. Don't touch rooms, sizes, furniture or connections the instruction doesn't mention. Keep 'seed'.
+      4. "next to X" means: connect the new room to X (both 'connections' lists).
+    `;
+
+// Model output, validated (and repaired) like every config
+const parseConfig = (json: unknown): { config: MapConfig; fixes: ConfigFix[] } => {
+  const { config, fixes, errors } = validateMapConfig(json);
+  if (!config) throw new Error(`Invalid map config: ${errors.join('; ')}`);
+  fixes.forEach(f => console.warn(`[GeminiDirector] Config fix (${f.action}) ${describeConfigFix(f)}`));
+  return { config, fixes };
+};
+
+// --- Logic from GeminiDirector, adapted for serverless environment ---
+export class ServerlessDirector {
+  constructor(private providers: LLMProvider[], private onProgress: ProgressCallback = NO_PROGRESS) {}
+
+  async generateMapConfig(userPrompt: string): Promise<{ config: MapConfig; fixes: ConfigFix[]; provider: string }> {
+    return this.run(buildSystemPrompt(), userPrompt, parseConfig);
+  }
+
+  /**
+   * Edits an existing config. Room ids and the seed survive, so unchanged rooms keep their layout.
+   */
+  async refineMapConfig(current: MapConfig, instruction: string): Promise<{ config: MapConfig; fixes: ConfigFix[]; provider: string; summary: string; changes: string[] }> {
+    const userPrompt = `CURRENT CONFIG: ${JSON.stringify(current)}\nEDIT: ${instruction}`;
+    return this.run(buildSystemPrompt() + REFINE_RULES, userPrompt, json => {
+      const output = (json ?? {}) as { config?: unknown; summary?: unknown };
+      const { config, fixes } = parseConfig(output.config ?? json); // Some models skip the wrapper
+      stabilizeRoomIds(current, config).forEach(line => console.warn(`[GeminiDirector] Restored room id ${line}`));
+      const changes = describeConfigChanges(current, config);
+      if (changes.length === 0) throw new Error('Edit changed nothing');
+      const summary = typeof output.summary === 'string' && output.summary.trim() ? output.summary.trim() : instruction;
+      return { config, fixes, summary, changes };
+    });
+  }
+
+  // Tries each provider in turn; unusable output (bad JSON, invalid config) moves on to the next
+  private async run<T extends { fixes: ConfigFix[] }>(systemPrompt: string, userPrompt: string, parse: (json: unknown) => T): Promise<T & { provider: string }> {
+    let lastError: unknown = null;
+
+    for (const provider of this.providers) {
+      try {
+        this.onProgress({ phase: 'model', message: `Asking ${provider.name}` });
+        const text = await provider.complete(systemPrompt, userPrompt);
+        const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
+        // --- SANITIZATION & VALIDATION PHASE ---
+        const result = parse(JSON.parse(cleanJson));
+        this.onProgress({
+          phase: 'validation',
+          message: result.fixes.length === 0 ? 'Config valid' : `${result.fixes.length} fixes: ${result.fixes.slice(0, 3).map(describeConfigFix).join('; ')}${result.fixes.length > 3 ? '; ...' : ''}`
+        });
+
+        console.log(`[GeminiDirector] Config from ${provider.name}`);
+        return { ...result, provider: provider.name };
+      } catch (error) {
+        console.warn(`Provider ${provider.name} failed. Trying next provider.`, error);
+        this.onProgress({ phase: 'fallback', message: `${provider.name} failed: ${error instanceof Error ? error.message : String(error)}` });
+        lastError = error;
+      }
+    }
+
+    console.error("Generation Failed for all providers:", lastError);
+    throw new Error("Failed to generate map configuration with any available provider.");
+  }
+}
+
+/**
+ * Sends what `work` returns: plain JSON, or NDJSON when the client asked for `stream`
+ * ({ type: 'progress' } lines as the director works, then one { type: 'result' } or { type: 'error' } line).
+ */
+export const sendDirectorResult = async (res: VercelResponse, stream: boolean, label: string, work: (onProgress: ProgressCallback) => Promise<object>) => {
+  const describeError = (error: unknown) => {
+    console.error(`Error in ${label} handler:`, error);
+    return `${label} Error: ${error instanceof Error ? error.message : 'Unknown Error'}`;
+  };
+
+  if (!stream) {
+    try {
+      res.status(200).json(await work(NO_PROGRESS));
+    } catch (error) {
+      // CRITICAL DEBUG: Expose actual error message to client
+      const response = (error as { response?: unknown } | null)?.response;
+      const details = response ? JSON.stringify(response) : '';
+      res.status(500).json({ error: describeError(error), details });
+    }
+    return;
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  const send = (line: object) => res.write(`${JSON.stringify(line)}\n`);
+  try {
+    send({ type: 'result', ...(await work(event => send({ type: 'progress', ...event }))) });
+  } catch (error) {
+    send({ type: 'error', error: describeError(error) });
+  }
+  res.end();
+};
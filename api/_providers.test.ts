@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createProviders, noProvidersResponse } from './_providers.js';
+
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+const names = (env: Record<string, string | undefined>, only?: string) => createProviders(env, only).map(p => p.name);
+
+describe('createProviders', () => {
+  it('never falls back to the offline director unless asked to', () => {
+    expect(names({})).toEqual([]);
+    expect(names({ LLM_BASE_URL: 'http://localhost:8080/v1', LLM_MODEL: 'qwen' })).toEqual(['openai:qwen']);
+  });
+
+  it('follows LLM_PROVIDERS, offline included', () => {
+    const env = { VITE_GEMINI_API_KEY: 'key', LLM_BASE_URL: 'http://localhost:8080/v1', LLM_PROVIDERS: 'openai, offline, nope' };
+    expect(names(env)).toEqual(['openai:local', 'offline']);
+    expect(names(env, 'gemini')[0]).toBe('gemini:gemini-2.5-flash');
+    expect(names({}, 'offline')).toEqual(['offline']);
+  });
+
+  it('tells a missing provider from no provider at all', () => {
+    expect(noProvidersResponse('gemini')).toEqual({ status: 400, error: "Provider 'gemini' is not configured on the server" });
+    expect(noProvidersResponse().status).toBe(503);
+  });
+});
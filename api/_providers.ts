@@ -0,0 +1,106 @@
+// api/_providers.ts (underscore: a shared module, not a serverless function)
+import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+// Node ESM needs the extension; the module only has type imports of its own
+import { OfflineDirector } from '../src/generators/OfflineDirector.js';
+
+// A source of MapConfig JSON. The director tries providers in order until one gives a usable config.
+export interface LLMProvider {
+  name: string;
+  complete(systemPrompt: string, userPrompt: string): Promise<string>;
+}
+
+// One provider per model, so a failing model falls through to the next like before
+export class GeminiProvider implements LLMProvider {
+  name: string;
+  private model: GenerativeModel;
+
+  constructor(apiKey: string, modelName: string) {
+    this.name = `gemini:${modelName}`;
+    this.model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName });
+  }
+
+  async complete(systemPrompt: string, userPrompt: string): Promise<string> {
+    const result = await this.model.generateContent([systemPrompt, `User Request: "${userPrompt}"`]);
+    return (await result.response).text();
+  }
+}
+
+// Any /v1/chat/completions server: llama.cpp, Ollama, LM Studio, vLLM, OpenAI itself
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: string;
+
+  constructor(private baseUrl: string, private model: string, private apiKey?: string) {
+    this.name = `openai:${model}`;
+  }
+
+  async complete(systemPrompt: string, userPrompt: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `User Request: "${userPrompt}"` }
+        ],
+        response_format: { type: 'json_object' }
+      })
+    });
+    if (!response.ok) throw new Error(`${this.name} responded ${response.status}: ${await response.text()}`);
+
+    const data = await response.json() as { choices?: { message?: { content?: string } }[] };
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) throw new Error(`${this.name} returned no message`);
+    return content;
+  }
+}
+
+// No network: keyword rules, ignores the system prompt. Opt-in: a degraded result should never pass for AI output
+export class OfflineProvider implements LLMProvider {
+  name = 'offline';
+
+  constructor(private respond: (userPrompt: string) => unknown = prompt => OfflineDirector.generateMapConfig(prompt)) {}
+
+  async complete(_systemPrompt: string, userPrompt: string): Promise<string> {
+    return JSON.stringify(this.respond(userPrompt));
+  }
+}
+
+const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-flash-latest', 'gemini-flash-lite-latest'];
+
+/**
+ * Builds the provider chain from the environment:
+ * - LLM_PROVIDERS: order, e.g. "openai,gemini,offline" (default: every configured model, Gemini first)
+ * - VITE_GEMINI_API_KEY: enables Gemini
+ * - LLM_BASE_URL (+ LLM_MODEL, LLM_API_KEY): enables the OpenAI-compatible endpoint
+ * The offline director only runs when listed in LLM_PROVIDERS or asked for with `only`
+ * (`offline` replaces its answer, e.g. for edits). `only` restricts the chain to one provider kind.
+ * An empty chain means nothing usable is configured.
+ */
+export const createProviders = (env: Record<string, string | undefined>, only?: string, offline?: (userPrompt: string) => unknown): LLMProvider[] => {
+  const available: Record<string, () => LLMProvider[]> = {
+    gemini: () => env.VITE_GEMINI_API_KEY ? GEMINI_MODELS.map(model => new GeminiProvider(env.VITE_GEMINI_API_KEY!, model)) : [],
+    openai: () => env.LLM_BASE_URL ? [new OpenAICompatibleProvider(env.LLM_BASE_URL, env.LLM_MODEL || 'local', env.LLM_API_KEY)] : [],
+    offline: () => [new OfflineProvider(offline)]
+  };
+
+  const order = only
+    ? [only]
+    : env.LLM_PROVIDERS?.split(',').map(p => p.trim().toLowerCase()).filter(Boolean) ?? ['gemini', 'openai'];
+
+  const unknown = order.filter(kind => !available[kind]);
+  if (unknown.length > 0) console.warn(`[Providers] Unknown provider(s) ignored: ${unknown.join(', ')}`);
+
+  return [...new Set(order)].filter(kind => available[kind]).flatMap(kind => available[kind]());
+};
+
+/**
+ * Response for an empty provider chain: a provider that was asked for but isn't set up (400),
+ * or nothing set up at all (503).
+ */
+export const noProvidersResponse = (only?: string): { status: number; error: string } => only
+  ? { status: 400, error: `Provider '${only}' is not configured on the server` }
+  : { status: 503, error: "No LLM provider configured: set VITE_GEMINI_API_KEY or LLM_BASE_URL, or add 'offline' to LLM_PROVIDERS" };
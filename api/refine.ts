@@ -0,0 +1,33 @@
+// api/refine.ts
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createProviders, noProvidersResponse } from './_providers.js';
+import { ServerlessDirector, sendDirectorResult } from './_director.js';
+import { OfflineDirector } from '../src/generators/OfflineDirector.js';
+import { validateMapConfig } from '../src/types/MapConfigSchema.js';
+
+// --- Vercel Serverless Function Handler ---
+// Body: { config: MapConfig, instruction: string, provider?, stream? }. Returns the edited config and what changed.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const { instruction, provider, stream } = req.body;
+  const { config, errors } = validateMapConfig(req.body.config);
+
+  if (!config) {
+    return res.status(400).json({ error: `Current config is required (${errors.join('; ')})` });
+  }
+  if (!instruction) {
+    return res.status(400).json({ error: 'Instruction is required' });
+  }
+
+  const providers = createProviders(process.env, provider, () => OfflineDirector.refineMapConfig(config, instruction));
+  if (providers.length === 0) {
+    const { status, error } = noProvidersResponse(provider);
+    return res.status(status).json({ error });
+  }
+
+  await sendDirectorResult(res, !!stream, 'Refine', onProgress =>
+    new ServerlessDirector(providers, onProgress).refineMapConfig(config, instruction));
+}
@@ -1,7 +1,133 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import * as Comlink from 'comlink';
 import { GameCanvas } from './components/GameCanvas';
-import { getWorker } from './workers/WorkerManager';
-import { MapConfig } from './types/MapConfig';
+import { InitiativeTracker } from './components/InitiativeTracker';
+import { runOnWorker } from './workers/WorkerManager';
+import { Job, JobManager, PHASE_TIMEOUTS } from './workers/JobManager';
+import { LayoutStrategy, MapConfig, ToneType } from './types/MapConfig';
+import { MapData } from './types/MapData';
+import { SavedMap } from './types/SavedMap';
+import { MapLibraryPanel } from './components/MapLibraryPanel';
+import { MapFile } from './storage/MapFile';
+import { MapAnalyzer } from './generators/MapAnalyzer';
+import { Permalink } from './storage/Permalink';
+import { SnapshotOptions } from './types/Snapshot';
+import { PrintLayout, PaperSize } from './exporters/PrintLayout';
+import { GenerationReport } from './types/GenerationReport';
+import { ConfigFix, describeConfigFix, LAYOUT_STRATEGIES } from './types/MapConfigSchema';
+import { OfflineDirector } from './generators/OfflineDirector';
+import { describeConfigChanges } from './types/MapConfigDiff';
+import { RefineResult, RefineStep } from './types/Refinement';
+import { RefinePanel } from './components/RefinePanel';
+import { ProgressCallback, ProgressEntry } from './types/Progress';
+import { ProgressList } from './components/ProgressList';
+
+// Structured layout strategies, for the picker
+const LAYOUT_LABELS: Record<LayoutStrategy, string> = {
+  spine: 'Spine (one long corridor)',
+  hub: 'Hub (rooms around a central room)',
+  cluster: 'Cluster (open plan)',
+  force: 'Force (room graph, organic)'
+};
+
+// Turns the worker's report into human readable warnings
+const describeReport = (report: GenerationReport, config: MapConfig, apiFixes: ConfigFix[] = []): string[] => {
+  const nameOf = (id: string): string => {
+    const mirror = report.mirroredRooms.find(m => m.id === id);
+    if (mirror) return `${nameOf(mirror.source)} (mirror)`;
+    return config.rooms.find(r => r.id === id)?.name || id;
+  };
+  return [
+    ...[...apiFixes, ...report.configFixes].map(f => `Config fixed: ${describeConfigFix(f)}`),
+    ...report.droppedRooms.map(r => `Room dropped: ${r.name} (${r.reason})`),
+    ...report.missingDoors.map(d => `No door: ${nameOf(d.from)} ↔ ${nameOf(d.to)} (rooms don't touch)`),
+    ...report.missingStairs.map(s => `No stairs: ${nameOf(s.from)} ↔ ${nameOf(s.to)} (${s.reason === 'no_landing' ? 'no shared spot for a landing' : 'levels are not adjacent'})`),
+    ...report.ignoredLevels.map(id => `Level ignored: ${nameOf(id)} (${config.type} maps have one floor)`),
+    ...report.unreachableRooms.map(id => `Unreachable from entrance: ${nameOf(id)}`),
+    ...report.unplacedFurniture.map(f => {
+      if (f.reason === 'unknown_item') return `Unknown furniture '${f.item}' in ${nameOf(f.roomId)}`;
+      if (f.reason === 'over_limit') return `Too many '${f.item}' in ${nameOf(f.roomId)}`;
+      if (f.reason === 'constraint') return `No valid spot for '${f.item}' in ${nameOf(f.roomId)} (placement rules)`;
+      return `No space for '${f.item}' in ${nameOf(f.roomId)}`;
+    })
+  ];
+};
+
+// POSTs to a director route and reads its NDJSON progress stream until the result line.
+// Plain `vite` dev server (no API routes, 404): `offline` runs the offline director in the browser.
+// A production build never falls back silently: a 404 there is a broken deployment
+const callDirector = async <T,>(route: string, body: object, offline: () => T, onProgress: ProgressCallback, signal: AbortSignal): Promise<T> => {
+  const response = await fetch(route, {
+    signal,
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  if (response.status === 404) {
+    if (!import.meta.env.DEV) throw new Error(`${route} not found (404): the API is not deployed or misrouted`);
+    console.warn(`[App] ${route} not found, using the offline director`);
+    onProgress({ phase: 'fallback', message: `${route} not found (dev server without API), offline keyword director in the browser` });
+    return offline();
+  }
+  if (!response.ok || !response.body) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'API request failed');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    for (const line of lines.filter(Boolean)) {
+      const { type, ...data } = JSON.parse(line);
+      if (type === 'progress') onProgress(data);
+      else if (type === 'error') throw new Error(data.error);
+      else if (type === 'result') return data as T;
+    }
+  }
+  throw new Error('API stream ended without a result');
+};
+
+// Saves a URL (blob or data URL) as a file through a temporary link
+const downloadUrl = (filename: string, url: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+};
+
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  downloadUrl(filename, url);
+  // Revoking right after the click can abort large downloads (Safari, Firefox)
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Asks MainScene to render the current level (PHASER_REQUEST_SNAPSHOT -> PHASER_SNAPSHOT)
+const requestSnapshot = (options: SnapshotOptions): Promise<string | null> => new Promise(resolve => {
+  const onSnapshot = ((e: CustomEvent) => {
+    window.removeEventListener('PHASER_SNAPSHOT', onSnapshot);
+    resolve(e.detail as string | null);
+  }) as EventListener;
+  window.addEventListener('PHASER_SNAPSHOT', onSnapshot);
+  window.dispatchEvent(new CustomEvent('PHASER_REQUEST_SNAPSHOT', { detail: options }));
+});
+
+// Resolves once MainScene listens for events. Created at load so the event can't be missed
+const sceneReady = new Promise<void>(resolve => {
+  window.addEventListener('PHASER_READY', () => resolve(), { once: true });
+});
+
+// VTT images: 64 px per square unless that would exceed 4096 px (VTTs choke on bigger backgrounds)
+const VTT_MAX_IMAGE = 4096;
+const PRINT_DPI = 150;
 
 function App() {
   const [status, setStatus] = useState<string>('Idle');
@@ -10,14 +136,63 @@ function App() {
   // Gemini State
   const [prompt, setPrompt] = useState('A spooky haunted victorian mansion with a grand foyer and a hidden basement.');
   const [generatedConfig, setGeneratedConfig] = useState<MapConfig | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const [layoutChoice, setLayoutChoice] = useState<LayoutStrategy | 'auto'>('auto');
+  const [warnings, setWarnings] = useState<string[] | null>(null);
+  const [levels, setLevels] = useState<number[]>([]);
+  const [activeLevel, setActiveLevel] = useState(0);
+  const [revealAll, setRevealAll] = useState(false);
+  const [mapData, setMapData] = useState<MapData | null>(null);
+  const [mapPrompt, setMapPrompt] = useState(''); // Prompt the current map came from
+  const [tone, setToneState] = useState<ToneType>('Normal');
+  const [refineHistory, setRefineHistory] = useState<RefineStep[]>([]);
+  const [progress, setProgress] = useState<ProgressEntry[]>([]);
+
+  // Image Export State
+  const [imagePps, setImagePps] = useState('100');
+  const [imageGrid, setImageGrid] = useState(true);
+  const [imageLabels, setImageLabels] = useState(false);
+  const [imageTone, setImageTone] = useState(false);
+  const [paper, setPaper] = useState<PaperSize>('letter');
+
+  // Permalink: render the map from the URL, no AI call
+  useEffect(() => {
+    Permalink.read(window.location.hash)
+      .then(async link => {
+        if (!link) return;
+        setStatus('Opening shared map...');
+        setGeneratedConfig(link.config);
+        setPrompt(link.config.description);
+        setMapPrompt(link.config.description);
+        await sceneReady;
+
+        setTone(link.tone);
+        const data = link.mapData
+          ? { ...link.mapData, costGrids: MapAnalyzer.buildCostGrids(link.mapData) }
+          : (await runOnWorker(worker => worker.generateMap(link.config))).mapData; // Too big for the URL: same seed, same map
+        showMap(data, true);
+        setRefineHistory([{ instruction: link.config.description, summary: 'Opened from a shared link', changes: [], config: { ...link.config, seed: data.seed } }]);
+        setStatus(`Opened shared map: ${link.config.description}`);
+      })
+      .catch(err => {
+        console.error(err);
+        setStatus('Shared link is broken or from a newer version');
+      });
+  }, []);
+
+  // MainScene switches level itself when the active token stands on another one
+  useEffect(() => {
+    const onLevelChanged = ((e: CustomEvent) => setActiveLevel(e.detail as number)) as EventListener;
+    window.addEventListener('PHASER_LEVEL_CHANGED', onLevelChanged);
+    return () => window.removeEventListener('PHASER_LEVEL_CHANGED', onLevelChanged);
+  }, []);
 
   const handleHeavyTask = async () => {
     setIsCalculating(true);
     setStatus('Calculating on Worker...');
     
     try {
-      const worker = getWorker();
-      const result = await worker.generateHeavyMap(5000);
+      const result = await runOnWorker(worker => worker.generateHeavyMap(5000));
       setStatus(result);
     } catch (err) {
       console.error(err);
@@ -27,58 +202,301 @@ function App() {
     }
   };
 
-  const setTone = (tone: string) => {
+  const toggleReveal = () => {
+    const next = !revealAll;
+    setRevealAll(next);
+    window.dispatchEvent(new CustomEvent('PHASER_SET_REVEAL', { detail: next }));
+  };
+
+  const setTone = (tone: ToneType) => {
+    setToneState(tone);
     window.dispatchEvent(new CustomEvent('PHASER_SET_TONE', { detail: tone }));
   };
 
-  const handleGenerate = async () => {
-      if (!prompt) {
-          alert('Please enter a narrative prompt.');
-          return;
+  const showMap = (data: MapData, fromLink = false) => {
+    // A new map makes the old permalink in the address bar stale
+    if (!fromLink && window.location.hash) history.replaceState(null, '', window.location.pathname);
+
+    setMapData(data);
+    window.dispatchEvent(new CustomEvent('PHASER_DRAW_MAP', { detail: data }));
+
+    // MainScene starts on the ground floor (or the first level if there is none)
+    const mapLevels = data.levels ?? [];
+    setLevels(mapLevels);
+    setActiveLevel(mapLevels.length > 0 && !mapLevels.includes(0) ? mapLevels[0] : 0);
+  };
+
+  // Library: reopen without the AI or the generator
+  const openSaved = (saved: SavedMap) => {
+    setPrompt(saved.prompt);
+    setMapPrompt(saved.prompt);
+    setGeneratedConfig(saved.config);
+    setWarnings(null);
+    setTone(saved.tone);
+    showMap({ ...saved.mapData, costGrids: MapAnalyzer.buildCostGrids(saved.mapData) });
+    setRefineHistory([{ instruction: saved.prompt || saved.name, summary: `Opened '${saved.name}' from the library`, changes: [], config: saved.config }]);
+    setStatus(`Opened: ${saved.name}`);
+  };
+
+  const exportSaved = (saved: SavedMap) => {
+    const slug = saved.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'map';
+    downloadFile(`${slug}.neurpg.json`, MapFile.serialize(saved), 'application/json');
+  };
+
+  const copyLink = async () => {
+    if (!mapData || !generatedConfig) return;
+    try {
+      const { url, dropped } = await Permalink.create(generatedConfig, tone, mapData);
+      history.replaceState(null, '', url);
+      await navigator.clipboard.writeText(url);
+      setStatus(`Link copied (${url.length} chars)${dropped.length > 0 ? `, without ${dropped.join(', ')}` : ''}`);
+    } catch (err) {
+      console.error(err);
+      setStatus('Copy Link Failed (Check Console)');
+    }
+  };
+
+  const makeThumbnail = () => mapData
+    ? requestSnapshot({ pixelsPerSquare: Math.max(1, Math.floor(128 / Math.max(mapData.width, mapData.height))) })
+    : Promise.resolve(null);
+
+  const switchLevel = (level: number) => {
+    setActiveLevel(level);
+    window.dispatchEvent(new CustomEvent('PHASER_SET_LEVEL', { detail: level }));
+  };
+
+  const exportTiled = async (format: 'json' | 'tmx') => {
+    if (!mapData) return;
+    try {
+      const content = await runOnWorker(worker => worker.exportTiled(mapData, format));
+      const name = `neurpg-${mapData.seed}`;
+      if (format === 'tmx') downloadFile(`${name}.tmx`, content, 'application/xml');
+      else downloadFile(`${name}.tmj`, content, 'application/json');
+    } catch (err) {
+      console.error(err);
+      setStatus('Export Failed (Check Console)');
+    }
+  };
+
+  const exportVtt = async (format: 'dd2vtt' | 'foundry') => {
+    if (!mapData) return;
+    try {
+      const pixelsPerGrid = Math.min(64, Math.floor(VTT_MAX_IMAGE / Math.max(mapData.width, mapData.height)));
+      const image = await requestSnapshot({ pixelsPerSquare: pixelsPerGrid });
+      if (!image) throw new Error('Map snapshot failed');
+
+      const name = fileBaseName(mapData);
+      const content = await runOnWorker(worker => worker.exportVtt(mapData, activeLevel, format, image, pixelsPerGrid, `${name}.png`));
+      if (format === 'dd2vtt') {
+        downloadFile(`${name}.dd2vtt`, content, 'application/json');
+      } else {
+        // Foundry references the background by path: upload the PNG next to the scene
+        downloadFile(`${name}.json`, content, 'application/json');
+        downloadUrl(`${name}.png`, image);
+      }
+    } catch (err) {
+      console.error(err);
+      setStatus('Export Failed (Check Console)');
+    }
+  };
+
+  const fileBaseName = (data: MapData) =>
+    data.levels ? `neurpg-${data.seed}-${levelLabel(activeLevel).toLowerCase().replace(/\s+/g, '')}` : `neurpg-${data.seed}`;
+
+  const exportImage = async () => {
+    if (!mapData) return;
+    setStatus('Rendering image...');
+    const image = await requestSnapshot({ pixelsPerSquare: parseInt(imagePps, 10), grid: imageGrid, labels: imageLabels, tone: imageTone });
+    if (!image) {
+      setStatus('Export Failed (Check Console)');
+      return;
+    }
+    downloadUrl(`${fileBaseName(mapData)}.png`, image);
+    setStatus(`Exported ${mapData.width * parseInt(imagePps, 10)}x${mapData.height * parseInt(imagePps, 10)} px image`);
+  };
+
+  // 1 inch per square, split into overlapping numbered pages
+  const printMap = async () => {
+    if (!mapData) return;
+    const printWindow = window.open('', '_blank'); // Open now: popup blockers only allow it inside the click
+    if (!printWindow) {
+      setStatus('Allow popups to print');
+      return;
+    }
+
+    try {
+      const plan = PrintLayout.plan(mapData.width, mapData.height, paper);
+      const pages: string[] = [];
+      for (const page of plan.pages) {
+        setStatus(`Rendering page ${page.number}/${plan.pages.length}...`);
+        const region = { x: page.x, y: page.y, width: page.width, height: page.height };
+        const image = await requestSnapshot({ pixelsPerSquare: PRINT_DPI, grid: imageGrid, labels: imageLabels, tone: imageTone, region });
+        if (!image) throw new Error(`Page ${page.number} render failed`);
+        pages.push(await PrintLayout.composePage(image, page, plan, PRINT_DPI));
       }
 
+      printWindow.document.write(PrintLayout.toHtml(pages, plan, fileBaseName(mapData)));
+      printWindow.document.close();
+      printWindow.onload = () => printWindow.print();
+      setStatus(`Print ready: ${plan.pages.length} pages (${plan.cols}x${plan.rows})`);
+    } catch (err) {
+      console.error(err);
+      printWindow.close();
+      setStatus('Print Failed (Check Console)');
+    }
+  };
+
+  const levelLabel = (level: number) => level < 0 ? `B${-level}` : level === 0 ? 'Ground' : `Floor ${level}`;
+
+  // Starts a new phase list. Returns a reporter per source; each entry is timed from the one before.
+  // Events from a superseded job are ignored
+  const startProgress = (job: Job) => {
+    let last = performance.now();
+    setProgress([]);
+    const add = (entry: Omit<ProgressEntry, 'at' | 'duration'>, always = false) => {
+      if (!always && !JobManager.isCurrent(job)) return;
+      const at = performance.now();
+      const duration = at - last;
+      last = at;
+      setProgress(entries => [...entries, { ...entry, at, duration }]);
+    };
+    return {
+      api: ((event) => add({ ...event, source: 'api' })) as ProgressCallback,
+      worker: ((event) => add({ ...event, source: 'worker' })) as ProgressCallback,
+      fail: (message: string) => add({ phase: 'error', message, source: 'worker', failed: true }, true)
+    };
+  };
+
+  // Runs one generation job: the running one is superseded, errors and cancels end up in the status
+  const runJob = async (label: string, work: (job: Job, tracker: ReturnType<typeof startProgress>) => Promise<void>) => {
+      const job = JobManager.start(label);
       setIsCalculating(true);
-      setStatus('AI Director is thinking...');
+      const tracker = startProgress(job);
 
       try {
-          const response = await fetch('/api/gemini', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ prompt }),
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(errorData.error || 'API request failed');
-          }
-
-          const config = await response.json() as MapConfig;
-          
-          setGeneratedConfig(config);
-          setStatus(`Generated: ${config.type} - ${config.description}`);
-          
-          // Set Tone immediately
-          setTone(config.tone);
-          
-          const worker = getWorker();
-          const mapData = await worker.generateMap(config);
-          
-          window.dispatchEvent(new CustomEvent('PHASER_DRAW_MAP', { detail: mapData }));
-
+          await work(job, tracker);
       } catch (err) {
+          if (JobManager.isSuperseded(job)) return; // The newer job owns the status line
           console.error(err);
-          const errorMessage = err instanceof Error ? err.message : 'Generation Failed (Check Console)';
+          const errorMessage = JobManager.isCancellation(err)
+            ? `Cancelled: ${label}`
+            : err instanceof Error ? err.message : `${label} Failed (Check Console)`;
           setStatus(errorMessage);
+          tracker.fail(errorMessage);
       } finally {
-          setIsCalculating(false);
+          if (!JobManager.isSuperseded(job)) setIsCalculating(false);
+          JobManager.finish(job);
       }
   };
 
+  // Runs a config through the worker and shows it. Returns the config with the seed that was used,
+  // or null when a newer job superseded this one (its map is dropped, never drawn)
+  const buildMap = async (job: Job, config: MapConfig, fixes: ConfigFix[], source: string, onProgress?: ProgressCallback): Promise<MapConfig | null> => {
+      setGeneratedConfig(config);
+      setStatus(`Generated: ${config.type} - ${config.description}`);
+
+      // Set Tone immediately
+      setTone(config.tone);
+
+      const layout = JobManager.phase(job, 'Layout', PHASE_TIMEOUTS.layout);
+      const { mapData, report } = await runOnWorker(worker => worker.generateMap(config, onProgress && Comlink.proxy(onProgress)), layout.signal)
+        .finally(layout.done);
+      if (!JobManager.isCurrent(job)) return null;
+
+      const seeded = { ...config, seed: mapData.seed };
+      setGeneratedConfig(seeded);
+      setWarnings(describeReport(report, config, fixes));
+      setStatus(`Generated: ${config.type} (seed ${mapData.seed}, ${source}) - ${config.description}`);
+      showMap(mapData);
+      return seeded;
+  };
+
+  // AI phase of a job, with its own timeout
+  const askDirector = async <T,>(job: Job, route: string, body: object, offline: () => T, onProgress: ProgressCallback): Promise<T> => {
+      const director = JobManager.phase(job, 'AI director', PHASE_TIMEOUTS.director);
+      return callDirector(route, body, offline, onProgress, director.signal).finally(director.done);
+  };
+
+  // Edits the current config instead of starting over (room ids and seed are kept)
+  const handleRefine = async (instruction: string) => {
+      const current = refineHistory[refineHistory.length - 1]?.config;
+      if (!current) return;
+
+      setStatus('AI Director is editing...');
+      await runJob('Refine', async (job, tracker) => {
+          const result = await askDirector<RefineResult>(job, '/api/refine', { config: current, instruction }, () => {
+            const { config, summary } = OfflineDirector.refineMapConfig(current, instruction);
+            return { config, fixes: [], provider: 'offline in browser', summary, changes: describeConfigChanges(current, config) };
+          }, tracker.api);
+
+          const seeded = await buildMap(job, result.config, result.fixes, result.provider, tracker.worker);
+          if (seeded) setRefineHistory(steps => [...steps, { instruction, summary: result.summary, changes: result.changes, config: seeded }]);
+      });
+  };
+
+  // Restores an earlier step. Same config + seed, same map; recorded as a new step so nothing is lost
+  const handleRevert = async (index: number) => {
+      const target = refineHistory[index];
+      const current = refineHistory[refineHistory.length - 1];
+      await runJob('Revert', async (job, tracker) => {
+          if (!await buildMap(job, target.config, [], 'history', tracker.worker)) return;
+          setRefineHistory(steps => [...steps, {
+            instruction: `Revert to step ${index + 1}`,
+            summary: `Back to: ${target.summary}`,
+            changes: describeConfigChanges(current.config, target.config),
+            config: target.config
+          }]);
+      });
+  };
+
+  // Same rooms and seed with another structured layout: no AI call, recorded as a step like an edit
+  const handleRelayout = async (layout: LayoutStrategy) => {
+      const current = refineHistory[refineHistory.length - 1]?.config;
+      if (!current || current.type !== 'structured') return;
+
+      const config = { ...current, layout };
+      await runJob('Layout', async (job, tracker) => {
+          const seeded = await buildMap(job, config, [], 'layout picker', tracker.worker);
+          if (seeded) setRefineHistory(steps => [...steps, {
+            instruction: `Layout: ${layout}`,
+            summary: `Switched to the ${LAYOUT_LABELS[layout]} layout`,
+            changes: describeConfigChanges(current, seeded),
+            config: seeded
+          }]);
+      });
+  };
+
+  const handleGenerate = async () => {
+      if (!prompt) {
+          alert('Please enter a narrative prompt.');
+          return;
+      }
+
+      setStatus('AI Director is thinking...');
+      setWarnings(null);
+
+      await runJob('Generate', async (job, tracker) => {
+          // The API returns the validated config, the fixes it applied to the AI output and who wrote it
+          const { config, fixes, provider } = await askDirector<{ config: MapConfig, fixes: ConfigFix[], provider: string }>(
+            job, '/api/gemini', { prompt }, () => ({ config: OfflineDirector.generateMapConfig(prompt), fixes: [], provider: 'offline in browser' }), tracker.api);
+
+          // Manual seed override (reproduce a previous map)
+          const parsedSeed = parseInt(seedInput, 10);
+          if (!isNaN(parsedSeed)) config.seed = parsedSeed;
+          // Manual layout override ('structured' only: the other generators have no strategies)
+          if (layoutChoice !== 'auto' && config.type === 'structured') config.layout = layoutChoice;
+
+          const seeded = await buildMap(job, config, fixes, provider, tracker.worker);
+          if (!seeded) return;
+          setMapPrompt(prompt);
+          setRefineHistory([{ instruction: prompt, summary: `Generated a ${config.type} map (${provider})`, changes: [], config: seeded }]);
+      });
+  };
+
   return (
     <>
       <GameCanvas />
+      <InitiativeTracker activeLevel={activeLevel} />
       <div style={{
         position: 'absolute',
         top: 20,
@@ -89,6 +507,8 @@ function App() {
         borderRadius: '8px',
         zIndex: 10,
         maxWidth: '350px',
+        maxHeight: 'calc(100vh - 80px)',
+        overflowY: 'auto',
         fontFamily: 'sans-serif',
         border: '1px solid #444',
         boxShadow: '0 4px 6px rgba(0,0,0,0.3)'
@@ -106,6 +526,33 @@ function App() {
             />
         </div>
 
+        <div style={{marginBottom: '15px'}}>
+            <label style={{fontSize: '0.8em', color: '#aaa'}}>Seed (optional)</label>
+            <input 
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                placeholder="Random"
+                style={{width: '100%', padding: '5px', marginTop: '2px', background: '#333', border: '1px solid #555', color: 'white'}}
+            />
+        </div>
+
+        <div style={{marginBottom: '15px'}}>
+            <label style={{fontSize: '0.8em', color: '#aaa'}}>Layout (buildings only)</label>
+            <div style={{display: 'flex', gap: '5px', marginTop: '2px'}}>
+                <select value={layoutChoice} onChange={(e) => setLayoutChoice(e.target.value as LayoutStrategy | 'auto')}
+                  style={{flex: 1, padding: '5px', background: '#333', border: '1px solid #555', color: 'white'}}>
+                    <option value="auto">Auto (AI or room graph)</option>
+                    {LAYOUT_STRATEGIES.map(strategy => <option key={strategy} value={strategy}>{LAYOUT_LABELS[strategy]}</option>)}
+                </select>
+                {layoutChoice !== 'auto' && refineHistory[refineHistory.length - 1]?.config.type === 'structured' && (
+                    <button onClick={() => handleRelayout(layoutChoice)} disabled={isCalculating}
+                      title="Rebuild the current map with this layout (same rooms and seed)" style={{cursor: 'pointer'}}>
+                        Apply
+                    </button>
+                )}
+            </div>
+        </div>
+
         <button 
           onClick={handleGenerate} 
           disabled={isCalculating}
@@ -123,9 +570,91 @@ function App() {
         >
           {isCalculating ? 'AI Director Working...' : 'GENERATE MAP'}
         </button>
+        {isCalculating && (
+            <button onClick={() => JobManager.cancel()} title="Abort the AI call or stop the layout worker"
+              style={{width: '100%', marginTop: '-10px', marginBottom: '15px', cursor: 'pointer', background: '#b71c1c', color: 'white', border: 'none', borderRadius: '4px', padding: '6px'}}>
+              Cancel
+            </button>
+        )}
 
         <p style={{marginBottom: '10px', fontSize: '0.9em'}}>Status: <span style={{color: '#4db6ac'}}>{status}</span></p>
 
+        {progress.length > 0 && <ProgressList entries={progress} running={isCalculating} />}
+
+        {refineHistory.length > 0 && (
+            <RefinePanel history={refineHistory} busy={isCalculating} onRefine={handleRefine} onRevert={handleRevert} />
+        )}
+
+        {/* Level Switcher */}
+        {levels.length > 1 && (
+            <div style={{display: 'flex', gap: '5px', flexWrap: 'wrap', marginBottom: '15px'}}>
+                {levels.map(level => (
+                    <button
+                        key={level}
+                        onClick={() => switchLevel(level)}
+                        style={{flex: 1, cursor: 'pointer', fontWeight: level === activeLevel ? 'bold' : 'normal', background: level === activeLevel ? '#2196F3' : undefined}}
+                    >
+                        {levelLabel(level)}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {/* Export */}
+        {mapData && (
+            <div style={{display: 'flex', gap: '5px', marginBottom: '5px'}}>
+                <button onClick={copyLink} title="Copy a link that opens this exact map" style={{flex: 1, cursor: 'pointer'}}>Copy Link</button>
+                <button onClick={() => exportTiled('json')} title="Tiled JSON map. Put tileset.png next to it" style={{flex: 1, cursor: 'pointer'}}>Tiled (.tmj)</button>
+                <button onClick={() => exportTiled('tmx')} title="Tiled XML map. Put tileset.png next to it" style={{flex: 1, cursor: 'pointer'}}>Tiled (.tmx)</button>
+            </div>
+        )}
+        {mapData && (
+            <div style={{display: 'flex', gap: '5px', marginBottom: '15px'}}>
+                <button onClick={() => exportVtt('dd2vtt')} title="Universal VTT: image, walls, doors and lights of the current level" style={{flex: 1, cursor: 'pointer'}}>VTT (.dd2vtt)</button>
+                <button onClick={() => exportVtt('foundry')} title="Foundry scene JSON + background PNG of the current level" style={{flex: 1, cursor: 'pointer'}}>Foundry</button>
+            </div>
+        )}
+        {mapData && (
+            <div style={{background: '#111', padding: '5px', fontSize: '0.8em', marginBottom: '15px'}}>
+                <div style={{display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '5px', color: '#aaa'}}>
+                    <select value={imagePps} onChange={(e) => setImagePps(e.target.value)} title="Pixels per square (PNG)">
+                        {['32', '64', '100', '140', '200'].map(v => <option key={v} value={v}>{v} px/sq</option>)}
+                    </select>
+                    <label><input type="checkbox" checked={imageGrid} onChange={(e) => setImageGrid(e.target.checked)} /> Grid</label>
+                    <label><input type="checkbox" checked={imageLabels} onChange={(e) => setImageLabels(e.target.checked)} /> Labels</label>
+                    <label><input type="checkbox" checked={imageTone} onChange={(e) => setImageTone(e.target.checked)} /> Tone</label>
+                </div>
+                <div style={{display: 'flex', gap: '5px'}}>
+                    <button onClick={exportImage} style={{flex: 1, cursor: 'pointer'}}>PNG</button>
+                    <select value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)}>
+                        <option value="letter">Letter</option>
+                        <option value="a4">A4</option>
+                    </select>
+                    <button onClick={printMap} title="1 inch per square, numbered pages with overlap marks" style={{flex: 1, cursor: 'pointer'}}>Print 1"/sq</button>
+                </div>
+            </div>
+        )}
+
+        {/* Generation Warnings */}
+        {warnings && (
+            <div style={{maxHeight: '150px', overflowY: 'auto', background: '#111', padding: '5px', fontSize: '0.8em', marginBottom: '15px'}}>
+                {warnings.length === 0 ? (
+                    <span style={{color: '#81c784'}}>All rooms placed, connected and furnished.</span>
+                ) : (
+                    <ul style={{margin: 0, paddingLeft: '18px', color: '#ffb74d'}}>
+                        {warnings.map((w, i) => <li key={i}>{w}</li>)}
+                    </ul>
+                )}
+            </div>
+        )}
+
+        <MapLibraryPanel
+            current={generatedConfig && mapData ? { prompt: mapPrompt, tone, config: { ...generatedConfig, seed: mapData.seed }, mapData } : null}
+            makeThumbnail={makeThumbnail}
+            onOpen={openSaved}
+            onExport={exportSaved}
+        />
+
         {/* Config Debug View */}
         {generatedConfig && (
             <div style={{maxHeight: '150px', overflowY: 'auto', background: '#111', padding: '5px', fontSize: '0.7em', marginBottom: '15px'}}>
@@ -158,6 +687,13 @@ function App() {
                 <button onClick={() => setTone('Night')} style={{flex: 1, cursor:'pointer'}}>Night</button>
                 <button onClick={() => setTone('Toxic')} style={{flex: 1, cursor:'pointer'}}>Toxic</button>
             </div>
+            <button
+                onClick={toggleReveal}
+                title="GM view: lift the fog of war"
+                style={{width: '100%', marginTop: '5px', cursor: 'pointer', background: revealAll ? '#f57f17' : undefined}}
+            >
+                {revealAll ? 'Fog: Revealed (GM)' : 'Fog: Player View'}
+            </button>
         </div>
       </div>
     </>
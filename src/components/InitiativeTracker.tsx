@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { MapData } from '../types/MapData';
+import { Token, TokenKind, TokenMove } from '../types/Token';
+
+const DEFAULT_COLORS: Record<TokenKind, string> = {
+  player: '#4fc3f7',
+  monster: '#e57373'
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '4px', background: '#333', border: '1px solid #555', color: 'white', minWidth: 0
+};
+
+// Highest initiative first, ties by name
+const byInitiative = (a: Token, b: Token) => b.initiative - a.initiative || a.name.localeCompare(b.name);
+
+interface InitiativeTrackerProps {
+  activeLevel: number; // New tokens are dropped on the level being viewed
+}
+
+/**
+ * Token list + initiative order. Owns the tokens and mirrors them into MainScene
+ * (PHASER_SET_TOKENS / PHASER_FOCUS_TOKEN); MainScene reports drags back (PHASER_TOKEN_MOVED).
+ */
+export const InitiativeTracker: React.FC<InitiativeTrackerProps> = ({ activeLevel }) => {
+  const [tokens, setTokens] = useState<Token[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [keepOnNewMap, setKeepOnNewMap] = useState(true);
+
+  // New token form
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<TokenKind>('player');
+  const [hp, setHp] = useState('10');
+  const [initiative, setInitiative] = useState('10');
+  const [vision, setVision] = useState('12');
+
+  // Mirror into Phaser
+  useEffect(() => {
+    window.dispatchEvent(new CustomEvent('PHASER_SET_TOKENS', { detail: tokens }));
+  }, [tokens]);
+
+  useEffect(() => {
+    window.dispatchEvent(new CustomEvent('PHASER_FOCUS_TOKEN', { detail: activeId }));
+  }, [activeId]);
+
+  // Drags (and first placement) from Phaser
+  useEffect(() => {
+    const onMoved = ((e: CustomEvent) => {
+      const move = e.detail as TokenMove;
+      setTokens(prev => prev.map(t => (t.id === move.id ? { ...t, x: move.x, y: move.y } : t)));
+    }) as EventListener;
+    window.addEventListener('PHASER_TOKEN_MOVED', onMoved);
+    return () => window.removeEventListener('PHASER_TOKEN_MOVED', onMoved);
+  }, []);
+
+  // New map: keep the party (re-dropped at the entrance) or start clean
+  useEffect(() => {
+    const onNewMap = ((e: CustomEvent) => {
+      const mapData = e.detail as MapData;
+      const level = mapData.levels && !mapData.levels.includes(0) ? mapData.levels[0] : 0;
+      if (keepOnNewMap) {
+        setTokens(prev => prev.map(t => ({ ...t, x: -1, y: -1, level })));
+      } else {
+        setTokens([]);
+        setActiveId(null);
+      }
+    }) as EventListener;
+    window.addEventListener('PHASER_DRAW_MAP', onNewMap);
+    return () => window.removeEventListener('PHASER_DRAW_MAP', onNewMap);
+  }, [keepOnNewMap]);
+
+  const sorted = [...tokens].sort(byInitiative);
+
+  const addToken = () => {
+    if (!name.trim()) return;
+    const maxHp = Math.max(1, parseInt(hp, 10) || 1);
+    setTokens(prev => [...prev, {
+      id: `token_${Date.now()}_${prev.length}`,
+      name: name.trim(),
+      kind,
+      color: DEFAULT_COLORS[kind],
+      hp: maxHp,
+      maxHp,
+      conditions: [],
+      initiative: parseInt(initiative, 10) || 0,
+      vision: kind === 'player' ? Math.max(0, parseInt(vision, 10) || 0) : undefined,
+      x: -1,
+      y: -1,
+      level: activeLevel
+    }]);
+    setName('');
+  };
+
+  const updateToken = (id: string, patch: Partial<Token>) => {
+    setTokens(prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const removeToken = (id: string) => {
+    setTokens(prev => prev.filter(t => t.id !== id));
+    if (activeId === id) setActiveId(null);
+  };
+
+  const nextTurn = () => {
+    if (sorted.length === 0) return;
+    const index = sorted.findIndex(t => t.id === activeId);
+    setActiveId(sorted[(index + 1) % sorted.length].id);
+  };
+
+  const addCondition = (token: Token, condition: string) => {
+    const c = condition.trim().toLowerCase();
+    if (c && !token.conditions.includes(c)) updateToken(token.id, { conditions: [...token.conditions, c] });
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: 20,
+      right: 20,
+      padding: '15px',
+      background: 'rgba(0,0,0,0.85)',
+      color: 'white',
+      borderRadius: '8px',
+      zIndex: 10,
+      width: '300px',
+      maxHeight: 'calc(100vh - 80px)',
+      overflowY: 'auto',
+      fontFamily: 'sans-serif',
+      border: '1px solid #444',
+      boxShadow: '0 4px 6px rgba(0,0,0,0.3)'
+    }}>
+      <h3 style={{margin: '0 0 10px 0', fontSize: '1em', color: '#81c784'}}>Initiative</h3>
+
+      {/* Add Token */}
+      <div style={{display: 'flex', gap: '4px', marginBottom: '6px'}}>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" style={{...inputStyle, flex: 3}}
+          onKeyDown={(e) => { if (e.key === 'Enter') addToken(); }} />
+        <select value={kind} onChange={(e) => setKind(e.target.value as TokenKind)} style={{...inputStyle, flex: 2}}>
+          <option value="player">Player</option>
+          <option value="monster">Monster</option>
+        </select>
+      </div>
+      <div style={{display: 'flex', gap: '4px', marginBottom: '10px', alignItems: 'center', fontSize: '0.8em', color: '#aaa'}}>
+        HP <input value={hp} onChange={(e) => setHp(e.target.value)} style={{...inputStyle, flex: 1}} />
+        Init <input value={initiative} onChange={(e) => setInitiative(e.target.value)} style={{...inputStyle, flex: 1}} />
+        {kind === 'player' && (
+          <>Sight <input value={vision} onChange={(e) => setVision(e.target.value)} title="Vision radius in squares" style={{...inputStyle, flex: 1}} /></>
+        )}
+        <button onClick={addToken} style={{cursor: 'pointer'}}>Add</button>
+      </div>
+
+      {/* Initiative Order */}
+      {sorted.length === 0 ? (
+        <p style={{fontSize: '0.8em', color: '#777', margin: '0 0 10px 0'}}>No tokens yet.</p>
+      ) : (
+        <ul style={{listStyle: 'none', margin: '0 0 10px 0', padding: 0}}>
+          {sorted.map(token => (
+            <li key={token.id} style={{
+              padding: '6px',
+              marginBottom: '4px',
+              borderRadius: '4px',
+              background: token.id === activeId ? '#33691e' : '#222',
+              border: token.id === activeId ? '1px solid #aed581' : '1px solid #333',
+              opacity: token.hp <= 0 ? 0.5 : 1
+            }}>
+              <div style={{display: 'flex', alignItems: 'center', gap: '6px'}}>
+                <input type="color" value={token.color} onChange={(e) => updateToken(token.id, { color: e.target.value })}
+                  style={{width: '20px', height: '20px', padding: 0, border: 'none', background: 'none'}} />
+                <span onClick={() => setActiveId(token.id)} style={{flex: 1, cursor: 'pointer', fontWeight: 'bold'}}>{token.name}</span>
+                <input value={token.initiative} onChange={(e) => updateToken(token.id, { initiative: parseInt(e.target.value, 10) || 0 })}
+                  title="Initiative" style={{...inputStyle, width: '32px'}} />
+                <button onClick={() => removeToken(token.id)} title="Remove" style={{cursor: 'pointer'}}>×</button>
+              </div>
+              <div style={{display: 'flex', alignItems: 'center', gap: '4px', marginTop: '4px', fontSize: '0.8em'}}>
+                <button onClick={() => updateToken(token.id, { hp: Math.max(0, token.hp - 1) })} style={{cursor: 'pointer'}}>-</button>
+                <span style={{minWidth: '60px', textAlign: 'center'}}>HP {token.hp}/{token.maxHp}</span>
+                <button onClick={() => updateToken(token.id, { hp: Math.min(token.maxHp, token.hp + 1) })} style={{cursor: 'pointer'}}>+</button>
+                <input placeholder="+ condition" style={{...inputStyle, flex: 1, fontSize: '0.9em'}}
+                  onKeyDown={(e) => {
+                    if (e.key !== 'Enter') return;
+                    addCondition(token, e.currentTarget.value);
+                    e.currentTarget.value = '';
+                  }} />
+              </div>
+              {token.conditions.length > 0 && (
+                <div style={{display: 'flex', gap: '4px', flexWrap: 'wrap', marginTop: '4px'}}>
+                  {token.conditions.map(c => (
+                    <span key={c} onClick={() => updateToken(token.id, { conditions: token.conditions.filter(x => x !== c) })}
+                      title="Click to remove"
+                      style={{fontSize: '0.7em', padding: '1px 5px', borderRadius: '8px', background: '#5d4037', color: '#ffb74d', cursor: 'pointer'}}>
+                      {c} ×
+                    </span>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={nextTurn}
+        disabled={sorted.length === 0}
+        style={{width: '100%', padding: '8px', background: sorted.length === 0 ? '#555' : '#2196F3', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontWeight: 'bold', marginBottom: '8px'}}
+      >
+        Next Turn
+      </button>
+
+      <label style={{fontSize: '0.8em', color: '#aaa', display: 'flex', alignItems: 'center', gap: '6px'}}>
+        <input type="checkbox" checked={keepOnNewMap} onChange={(e) => setKeepOnNewMap(e.target.checked)} />
+        Keep tokens when a new map is generated
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SavedMap } from '../types/SavedMap';
+import { MapLibrary } from '../storage/MapLibrary';
+import { MapFile } from '../storage/MapFile';
+
+const inputStyle: React.CSSProperties = {
+  padding: '4px', background: '#333', border: '1px solid #555', color: 'white', minWidth: 0
+};
+
+interface MapLibraryPanelProps {
+  // The map on screen, ready to save (null before the first generation)
+  current: Omit<SavedMap, 'id' | 'name' | 'thumbnail' | 'createdAt' | 'updatedAt'> | null;
+  makeThumbnail: () => Promise<string | null>;
+  onOpen: (map: SavedMap) => void;
+  onExport: (map: SavedMap) => void;
+}
+
+/**
+ * Saved maps (IndexedDB): save the current map under a name, then list, rename,
+ * delete, export or reopen them. Imported .neurpg.json files are added to the library.
+ */
+export const MapLibraryPanel: React.FC<MapLibraryPanelProps> = ({ current, makeThumbnail, onOpen, onExport }) => {
+  const [maps, setMaps] = useState<SavedMap[]>([]);
+  const [name, setName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const refresh = () => MapLibrary.list().then(setMaps).catch(err => {
+    console.error(err);
+    setError('Library unavailable (IndexedDB blocked?)');
+  });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const save = async () => {
+    if (!current) return;
+    const now = Date.now();
+    await MapLibrary.save({
+      ...current,
+      id: MapLibrary.newId(),
+      name: name.trim() || current.config.description || 'Untitled map',
+      thumbnail: (await makeThumbnail()) ?? undefined,
+      createdAt: now,
+      updatedAt: now
+    });
+    setName('');
+    refresh();
+  };
+
+  const rename = async (id: string, newName: string) => {
+    setEditingId(null);
+    if (newName.trim()) await MapLibrary.rename(id, newName.trim());
+    refresh();
+  };
+
+  const remove = async (map: SavedMap) => {
+    if (!confirm(`Delete "${map.name}"?`)) return;
+    await MapLibrary.remove(map.id);
+    refresh();
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = MapFile.parse(await file.text());
+      const map = { ...imported, id: MapLibrary.newId(), updatedAt: Date.now() };
+      await MapLibrary.save(map);
+      setError(null);
+      refresh();
+      onOpen(map);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message.replace(/^\[MapFile\] /, '') : 'Import failed');
+    }
+  };
+
+  return (
+    <div style={{borderTop: '1px solid #444', paddingTop: '10px', marginBottom: '15px'}}>
+      <h3 style={{margin: '0 0 10px 0', fontSize: '1em'}}>Library</h3>
+
+      <div style={{display: 'flex', gap: '4px', marginBottom: '6px'}}>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" disabled={!current}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }} style={{...inputStyle, flex: 1}} />
+        <button onClick={save} disabled={!current} style={{cursor: 'pointer'}}>Save</button>
+        <button onClick={() => fileInput.current?.click()} title="Import a .neurpg.json file" style={{cursor: 'pointer'}}>Import</button>
+        <input ref={fileInput} type="file" accept=".json,application/json" style={{display: 'none'}}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }} />
+      </div>
+
+      {error && <p style={{fontSize: '0.8em', color: '#ffb74d', margin: '0 0 6px 0'}}>{error}</p>}
+
+      {maps.length === 0 ? (
+        <p style={{fontSize: '0.8em', color: '#777', margin: 0}}>No saved maps.</p>
+      ) : (
+        <ul style={{listStyle: 'none', margin: 0, padding: 0, maxHeight: '200px', overflowY: 'auto'}}>
+          {maps.map(map => (
+            <li key={map.id} style={{display: 'flex', gap: '6px', alignItems: 'center', padding: '4px', marginBottom: '4px', background: '#222', borderRadius: '4px'}}>
+              {map.thumbnail
+                ? <img src={map.thumbnail} alt="" style={{width: '40px', height: '40px', objectFit: 'contain', background: '#000', cursor: 'pointer'}} onClick={() => onOpen(map)} />
+                : <div style={{width: '40px', height: '40px', background: '#000'}} />}
+              <div style={{flex: 1, minWidth: 0, fontSize: '0.8em'}}>
+                {editingId === map.id ? (
+                  <input defaultValue={map.name} autoFocus style={{...inputStyle, width: '100%'}}
+                    onBlur={(e) => rename(map.id, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') rename(map.id, e.currentTarget.value);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }} />
+                ) : (
+                  <div onDoubleClick={() => setEditingId(map.id)} title="Double-click to rename"
+                    style={{fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap'}}>
+                    {map.name}
+                  </div>
+                )}
+                <div style={{color: '#888'}}>{map.config.type} · {new Date(map.updatedAt).toLocaleDateString()}</div>
+              </div>
+              <button onClick={() => onOpen(map)} title="Open" style={{cursor: 'pointer'}}>Open</button>
+              <button onClick={() => onExport(map)} title="Export .neurpg.json" style={{cursor: 'pointer'}}>⤓</button>
+              <button onClick={() => remove(map)} title="Delete" style={{cursor: 'pointer'}}>×</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
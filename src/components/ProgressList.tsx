@@ -0,0 +1,36 @@
+import React from 'react';
+import { ProgressEntry } from '../types/Progress';
+
+interface ProgressListProps {
+  entries: ProgressEntry[];
+  running: boolean;
+}
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`;
+
+/**
+ * Phases of the last generation with the time each took, so slow or failed runs show where they stalled.
+ */
+export const ProgressList: React.FC<ProgressListProps> = ({ entries, running }) => {
+  const total = entries.reduce((sum, e) => sum + e.duration, 0);
+
+  return (
+    <div style={{maxHeight: '160px', overflowY: 'auto', background: '#111', padding: '5px', fontSize: '0.75em', marginBottom: '15px'}}>
+      <table style={{width: '100%', borderCollapse: 'collapse'}}>
+        <tbody>
+          {entries.map((e, i) => (
+            <tr key={i} style={{color: e.failed ? '#e57373' : e.phase === 'fallback' ? '#ffb74d' : '#ccc', verticalAlign: 'top'}}>
+              <td style={{color: '#777', paddingRight: '4px'}}>{e.source === 'api' ? 'AI' : 'Map'}</td>
+              <td style={{paddingRight: '4px', whiteSpace: 'nowrap'}}>{e.phase}</td>
+              <td style={{wordBreak: 'break-word'}}>{e.message}</td>
+              <td style={{textAlign: 'right', whiteSpace: 'nowrap', paddingLeft: '4px', color: e.duration > 2000 ? '#ffb74d' : '#888'}}>{formatMs(e.duration)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{color: '#777', marginTop: '3px'}}>
+        {running ? `Working... (${formatMs(total)} so far)` : `Total ${formatMs(total)}`}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { RefineStep } from '../types/Refinement';
+
+interface RefinePanelProps {
+  history: RefineStep[];
+  busy: boolean;
+  onRefine: (instruction: string) => void;
+  onRevert: (index: number) => void;
+}
+
+/**
+ * Chat-style edit history: each instruction patches the previous config instead of
+ * starting over, and any earlier step can be restored with one click.
+ */
+export const RefinePanel: React.FC<RefinePanelProps> = ({ history, busy, onRefine, onRevert }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const submit = () => {
+    if (!instruction.trim() || busy) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div style={{borderTop: '1px solid #444', paddingTop: '10px', marginBottom: '15px'}}>
+      <h3 style={{margin: '0 0 10px 0', fontSize: '1em'}}>Refine</h3>
+
+      <div style={{maxHeight: '220px', overflowY: 'auto', marginBottom: '6px', fontSize: '0.8em'}}>
+        {history.map((step, i) => (
+          <div key={i} style={{marginBottom: '8px'}}>
+            <div style={{marginLeft: '20%', padding: '4px 6px', background: '#1e3a5f', borderRadius: '6px 6px 0 6px'}}>
+              {step.instruction}
+            </div>
+            <div style={{marginRight: '20%', marginTop: '3px', padding: '4px 6px', background: '#222', borderRadius: '6px 6px 6px 0'}}>
+              <div style={{color: '#81c784'}}>{step.summary}</div>
+              {step.changes.length > 0 && (
+                <ul style={{margin: '2px 0 0 0', paddingLeft: '16px', color: '#aaa'}}>
+                  {step.changes.map((c, j) => <li key={j}>{c}</li>)}
+                </ul>
+              )}
+              {i < history.length - 1 && (
+                <button onClick={() => onRevert(i)} disabled={busy} title="Regenerate the map as it was at this step"
+                  style={{marginTop: '4px', cursor: 'pointer', fontSize: '0.9em'}}>↺ Revert to this</button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{display: 'flex', gap: '4px'}}>
+        <input value={instruction} onChange={(e) => setInstruction(e.target.value)} disabled={busy}
+          placeholder="e.g. add a library next to the foyer"
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+          style={{flex: 1, minWidth: 0, padding: '4px', background: '#333', border: '1px solid #555', color: 'white'}} />
+        <button onClick={submit} disabled={busy || !instruction.trim()} style={{cursor: 'pointer'}}>Refine</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { PrintLayout } from './PrintLayout';
+
+describe('PrintLayout.plan', () => {
+    it('fits a small map on one page', () => {
+        const plan = PrintLayout.plan(5, 5, 'letter');
+        expect(plan.pages).toEqual([{ number: 1, row: 0, col: 0, x: 0, y: 0, width: 5, height: 5 }]);
+    });
+
+    it('tiles a large map row-major with one square of overlap', () => {
+        // Letter: 7 x 9 squares per page
+        const plan = PrintLayout.plan(20, 20, 'letter');
+        expect([plan.cols, plan.rows]).toEqual([4, 3]);
+        expect(plan.pages).toHaveLength(12);
+        expect(plan.pages[1]).toMatchObject({ number: 2, row: 0, col: 1, x: 6, width: 7 });
+        expect(plan.pages[4]).toMatchObject({ number: 5, row: 1, col: 0, y: 8, height: 9 });
+
+        // Every square is on some page, and the last page ends at the map edge
+        const last = plan.pages[plan.pages.length - 1];
+        expect([last.x + last.width, last.y + last.height]).toEqual([20, 20]);
+    });
+
+    it('lists one image per page in the printable HTML', () => {
+        const plan = PrintLayout.plan(20, 20, 'a4');
+        const html = PrintLayout.toHtml(plan.pages.map(() => 'data:image/png;base64,AA'), plan, 'Keep');
+        expect(html).toContain('size: A4 portrait');
+        expect(html.match(/<img /g)).toHaveLength(plan.pages.length);
+    });
+});
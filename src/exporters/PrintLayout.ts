@@ -0,0 +1,146 @@
+// Print at 1 inch per square: the map is cut into page tiles that overlap by one square,
+// so neighbouring pages can be trimmed or overlapped and taped together.
+
+export type PaperSize = 'letter' | 'a4';
+
+// Inches
+const PAPER: Record<PaperSize, { width: number, height: number }> = {
+    letter: { width: 8.5, height: 11 },
+    a4: { width: 8.27, height: 11.69 }
+};
+const MARGIN = 0.4; // Most printers can't print to the edge
+const OVERLAP = 1; // Squares repeated on the next page
+
+export interface PrintPage {
+    number: number; // 1-based, row-major
+    row: number;
+    col: number;
+    x: number; // Region of the map on this page, in squares
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PrintPlan {
+    paper: PaperSize;
+    rows: number;
+    cols: number;
+    pages: PrintPage[];
+}
+
+export class PrintLayout {
+    /**
+     * Splits a width x height (squares) map into pages. Pure: usable from the worker.
+     */
+    static plan(width: number, height: number, paper: PaperSize): PrintPlan {
+        const perPageX = Math.floor(PAPER[paper].width - 2 * MARGIN);
+        const perPageY = Math.floor(PAPER[paper].height - 2 * MARGIN - 0.5); // Room for the page label
+        const stepX = perPageX - OVERLAP;
+        const stepY = perPageY - OVERLAP;
+
+        const cols = Math.max(1, Math.ceil((width - OVERLAP) / stepX));
+        const rows = Math.max(1, Math.ceil((height - OVERLAP) / stepY));
+
+        const pages: PrintPage[] = [];
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                const x = col * stepX;
+                const y = row * stepY;
+                pages.push({
+                    number: pages.length + 1,
+                    row,
+                    col,
+                    x,
+                    y,
+                    width: Math.min(perPageX, width - x),
+                    height: Math.min(perPageY, height - y)
+                });
+            }
+        }
+        return { paper, rows, cols, pages };
+    }
+
+    /**
+     * Lays one rendered page region (`image`, at `dpi` px per square) out on a full sheet:
+     * overlap marks where the neighbours start, crop marks in the corners and the page number.
+     */
+    static async composePage(image: string, page: PrintPage, plan: PrintPlan, dpi: number): Promise<string> {
+        const paper = PAPER[plan.paper];
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(paper.width * dpi);
+        canvas.height = Math.round(paper.height * dpi);
+        const ctx = canvas.getContext('2d')!;
+
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+        const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+            const el = new Image();
+            el.onload = () => resolve(el);
+            el.onerror = () => reject(new Error(`[PrintLayout] Page ${page.number} image failed to load`));
+            el.src = image;
+        });
+
+        const left = Math.round(MARGIN * dpi);
+        const top = Math.round(MARGIN * dpi);
+        const w = page.width * dpi;
+        const h = page.height * dpi;
+        ctx.drawImage(img, left, top, w, h);
+
+        // Overlap marks: dashed line where the next page's first square starts
+        ctx.strokeStyle = '#d32f2f';
+        ctx.lineWidth = Math.max(1, dpi / 50);
+        ctx.setLineDash([dpi / 10, dpi / 10]);
+        if (page.col < plan.cols - 1) this.line(ctx, left + w - OVERLAP * dpi, top, left + w - OVERLAP * dpi, top + h);
+        if (page.row < plan.rows - 1) this.line(ctx, left, top + h - OVERLAP * dpi, left + w, top + h - OVERLAP * dpi);
+        if (page.col > 0) this.line(ctx, left + OVERLAP * dpi, top, left + OVERLAP * dpi, top + h);
+        if (page.row > 0) this.line(ctx, left, top + OVERLAP * dpi, left + w, top + OVERLAP * dpi);
+        ctx.setLineDash([]);
+
+        // Crop marks just outside the corners
+        ctx.strokeStyle = '#000000';
+        const mark = dpi / 4;
+        const gap = dpi / 20;
+        for (const [cx, cy, dx, dy] of [[left, top, -1, -1], [left + w, top, 1, -1], [left, top + h, -1, 1], [left + w, top + h, 1, 1]]) {
+            this.line(ctx, cx + dx * gap, cy, cx + dx * (gap + mark), cy);
+            this.line(ctx, cx, cy + dy * gap, cx, cy + dy * (gap + mark));
+        }
+
+        // Page label (with neighbours, for assembly)
+        const neighbour = (row: number, col: number) =>
+            row >= 0 && col >= 0 && row < plan.rows && col < plan.cols ? `${row * plan.cols + col + 1}` : '-';
+        ctx.fillStyle = '#000000';
+        ctx.font = `${Math.round(dpi / 7)}px sans-serif`;
+        ctx.textBaseline = 'top';
+        ctx.fillText(
+            `Page ${page.number}/${plan.pages.length}  (row ${page.row + 1}, col ${page.col + 1})   ` +
+            `← ${neighbour(page.row, page.col - 1)}  → ${neighbour(page.row, page.col + 1)}  ↑ ${neighbour(page.row - 1, page.col)}  ↓ ${neighbour(page.row + 1, page.col)}`,
+            left, top + h + dpi / 8
+        );
+
+        return canvas.toDataURL('image/png');
+    }
+
+    /**
+     * Printable HTML: one sheet per page, no browser margins.
+     */
+    static toHtml(pages: string[], plan: PrintPlan, title: string): string {
+        const paper = PAPER[plan.paper];
+        const size = plan.paper === 'a4' ? 'A4' : 'letter';
+        return `<!DOCTYPE html>
+<html><head><title>${title}</title><style>
+@page { size: ${size} portrait; margin: 0; }
+body { margin: 0; }
+img { display: block; width: ${paper.width}in; height: ${paper.height}in; page-break-after: always; }
+</style></head><body>
+${pages.map((src, i) => `<img src="${src}" alt="Page ${i + 1}">`).join('\n')}
+</body></html>`;
+    }
+
+    private static line(ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number) {
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+    }
+}
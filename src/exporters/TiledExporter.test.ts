@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { TiledExporter, TiledGroupLayer, TiledObjectLayer, TiledTileLayer } from './TiledExporter';
+import { MapData } from '../types/MapData';
+
+// 3x2 map on the 4x4 atlas: floor_wood = GID 4, wall_brick = 2, door_wood = 3, bed = 10
+const mapData: MapData = {
+    width: 3,
+    height: 2,
+    seed: 77,
+    tiles: [
+        { x: 0, y: 0, sprite: 'floor_wood', layer: 'floor' },
+        { x: 1, y: 0, sprite: 'floor_wood', layer: 'floor' },
+        { x: 2, y: 0, sprite: 'wall', layer: 'wall' },
+        { x: 0, y: 1, sprite: 'bed', layer: 'furniture', width: 2, height: 1, rotation: 90 },
+        { x: 2, y: 1, sprite: 'door', layer: 'furniture' }
+    ],
+    rooms: [{ id: 'r1', name: 'Bedroom', type: 'bedroom', x: 0, y: 0, width: 2, height: 2 }]
+};
+
+const ROTATED_90 = 0x20000000 | 0x80000000; // Diagonal + horizontal flip
+
+describe('TiledExporter.toJSON', () => {
+    const map = TiledExporter.toJSON(mapData);
+    const layer = <T>(name: string) => map.layers.find(l => l.name === name) as T;
+
+    it('writes the map header, tileset and seed', () => {
+        expect(map).toMatchObject({ type: 'map', orientation: 'orthogonal', width: 3, height: 2, tilewidth: 32, tileheight: 32, infinite: false });
+        expect(map.tilesets).toEqual([expect.objectContaining({ firstgid: 1, columns: 4, tilecount: 16 })]);
+        expect(map.properties).toEqual([{ name: 'seed', type: 'int', value: 77 }]);
+    });
+
+    it('puts tiles on their layers as GIDs, filling furniture footprints and encoding rotation', () => {
+        expect(layer<TiledTileLayer>('Floor').data).toEqual([4, 4, 0, 0, 0, 0]);
+        expect(layer<TiledTileLayer>('Walls').data).toEqual([0, 0, 2, 0, 0, 0]);
+        const bed = (10 | ROTATED_90) >>> 0;
+        expect(layer<TiledTileLayer>('Furniture').data).toEqual([0, 0, 0, bed, bed, 3]);
+    });
+
+    it('exports rooms as rectangles and doors as points, with unique ids', () => {
+        expect(layer<TiledObjectLayer>('Rooms').objects).toEqual([expect.objectContaining({ name: 'Bedroom', x: 0, y: 0, width: 64, height: 64 })]);
+        expect(layer<TiledObjectLayer>('Doors').objects).toEqual([expect.objectContaining({ type: 'door', point: true, x: 80, y: 48 })]);
+
+        expect(map.layers.map(l => l.id)).toEqual([1, 2, 3, 4, 5]);
+        expect(map.nextlayerid).toBe(6);
+        expect(map.nextobjectid).toBe(3);
+    });
+
+    it('groups layers per floor on multi-level maps', () => {
+        const multi = TiledExporter.toJSON({
+            ...mapData,
+            levels: [0, 1],
+            tiles: [...mapData.tiles, { x: 0, y: 0, sprite: 'floor_wood', layer: 'floor', level: 1 }]
+        });
+        const groups = multi.layers as TiledGroupLayer[];
+        expect(groups.map(g => [g.type, g.name])).toEqual([['group', 'Ground'], ['group', 'Floor 1']]);
+        expect((groups[1].layers[0] as TiledTileLayer).data).toEqual([4, 0, 0, 0, 0, 0]);
+    });
+});
+
+describe('TiledExporter.toTMX', () => {
+    it('writes the same map as XML with CSV layer data', () => {
+        const xml = TiledExporter.toTMX(mapData);
+        expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<map version=')).toBe(true);
+        expect(xml).toContain('width="3" height="2" tilewidth="32" tileheight="32"');
+        expect(xml).toContain('<data encoding="csv">\n4,4,0,\n0,0,0\n');
+        expect(xml).toContain('<point/>');
+        expect(xml.trim().endsWith('</map>')).toBe(true);
+    });
+
+    it('escapes names', () => {
+        const xml = TiledExporter.toTMX({ ...mapData, rooms: [{ ...mapData.rooms[0], name: 'Tom & "Jerry" <den>' }] });
+        expect(xml).toContain('name="Tom &amp; &quot;Jerry&quot; &lt;den&gt;"');
+    });
+});
@@ -0,0 +1,324 @@
+import { MapData, TileData, getLevelView } from '../types/MapData';
+import { AssetMapper } from '../game/AssetMapper';
+import atlas from '../../public/assets/tileset.json';
+
+// Tiled map format (https://doc.mapeditor.org/en/stable/reference/json-map-format/).
+// Only the parts we write are typed.
+
+const TILE_SIZE = 32;
+const TILED_VERSION = '1.10';
+
+// GID flag bits: Tiled stores rotation as flips (https://doc.mapeditor.org/en/stable/reference/global-tile-ids/)
+const FLIPPED_HORIZONTALLY = 0x80000000;
+const FLIPPED_VERTICALLY = 0x40000000;
+const FLIPPED_DIAGONALLY = 0x20000000;
+
+export interface TiledProperty {
+    name: string;
+    type: 'string' | 'int' | 'bool';
+    value: string | number | boolean;
+}
+
+export interface TiledObject {
+    id: number;
+    name: string;
+    type: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    rotation: number;
+    visible: boolean;
+    point?: boolean;
+    properties: TiledProperty[];
+}
+
+interface TiledLayerBase {
+    id: number;
+    name: string;
+    opacity: number;
+    visible: boolean;
+    x: number;
+    y: number;
+    properties?: TiledProperty[];
+}
+
+export interface TiledTileLayer extends TiledLayerBase {
+    type: 'tilelayer';
+    width: number;
+    height: number;
+    data: number[];
+}
+
+export interface TiledObjectLayer extends TiledLayerBase {
+    type: 'objectgroup';
+    draworder: 'topdown';
+    objects: TiledObject[];
+}
+
+export interface TiledGroupLayer extends TiledLayerBase {
+    type: 'group';
+    layers: TiledLayer[];
+}
+
+export type TiledLayer = TiledTileLayer | TiledObjectLayer | TiledGroupLayer;
+
+export interface TiledTileset {
+    firstgid: number;
+    name: string;
+    image: string;
+    imagewidth: number;
+    imageheight: number;
+    tilewidth: number;
+    tileheight: number;
+    columns: number;
+    tilecount: number;
+    margin: number;
+    spacing: number;
+}
+
+export interface TiledMap {
+    type: 'map';
+    version: string;
+    orientation: 'orthogonal';
+    renderorder: 'right-down';
+    width: number;
+    height: number;
+    tilewidth: number;
+    tileheight: number;
+    infinite: false;
+    nextlayerid: number;
+    nextobjectid: number;
+    layers: TiledLayer[];
+    tilesets: TiledTileset[];
+    properties: TiledProperty[];
+}
+
+/**
+ * MapData -> Tiled (.tmj / .tmx). No Phaser, no DOM: safe to call from the worker.
+ * Tiles reference the main_atlas image (tileset.png), which must sit next to the exported file.
+ * Tints don't exist in Tiled; the semantic sprite is lost, only the atlas frame is kept.
+ */
+export class TiledExporter {
+    static toJSON(mapData: MapData): TiledMap {
+        const columns = atlas.meta.size.w / TILE_SIZE;
+        const ids = { layer: 1, object: 1 };
+
+        const levels = mapData.levels ?? [0];
+        const layers: TiledLayer[] = levels.map(level => {
+            const view = getLevelView(mapData, level);
+            const levelLayers = this.buildLevelLayers(view, columns, ids);
+            if (!mapData.levels) return levelLayers;
+
+            // Multi-level: one group per floor
+            const group: TiledGroupLayer = {
+                ...this.layerBase(ids, level < 0 ? `Basement ${-level}` : level === 0 ? 'Ground' : `Floor ${level}`),
+                type: 'group',
+                layers: levelLayers,
+                properties: [{ name: 'level', type: 'int', value: level }]
+            };
+            return [group];
+        }).flat();
+
+        return {
+            type: 'map',
+            version: TILED_VERSION,
+            orientation: 'orthogonal',
+            renderorder: 'right-down',
+            width: mapData.width,
+            height: mapData.height,
+            tilewidth: TILE_SIZE,
+            tileheight: TILE_SIZE,
+            infinite: false,
+            nextlayerid: ids.layer,
+            nextobjectid: ids.object,
+            layers,
+            tilesets: [{
+                firstgid: 1,
+                name: 'main_atlas',
+                image: atlas.meta.image,
+                imagewidth: atlas.meta.size.w,
+                imageheight: atlas.meta.size.h,
+                tilewidth: TILE_SIZE,
+                tileheight: TILE_SIZE,
+                columns,
+                tilecount: columns * (atlas.meta.size.h / TILE_SIZE),
+                margin: 0,
+                spacing: 0
+            }],
+            properties: [{ name: 'seed', type: 'int', value: mapData.seed }]
+        };
+    }
+
+    static toTMX(mapData: MapData): string {
+        const map = this.toJSON(mapData);
+        const tileset = map.tilesets[0];
+
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<map version="${map.version}" orientation="${map.orientation}" renderorder="${map.renderorder}" width="${map.width}" height="${map.height}" tilewidth="${map.tilewidth}" tileheight="${map.tileheight}" infinite="0" nextlayerid="${map.nextlayerid}" nextobjectid="${map.nextobjectid}">`,
+            ...this.propertiesXml(map.properties, ' '),
+            ` <tileset firstgid="${tileset.firstgid}" name="${tileset.name}" tilewidth="${tileset.tilewidth}" tileheight="${tileset.tileheight}" tilecount="${tileset.tilecount}" columns="${tileset.columns}">`,
+            `  <image source="${tileset.image}" width="${tileset.imagewidth}" height="${tileset.imageheight}"/>`,
+            ' </tileset>',
+            ...map.layers.flatMap(layer => this.layerXml(layer, ' ')),
+            '</map>'
+        ];
+        return lines.join('\n') + '\n';
+    }
+
+    // 1. Floor / Walls / Furniture tile layers, 2. Rooms + Doors object layers
+    private static buildLevelLayers(mapData: MapData, columns: number, ids: { layer: number, object: number }): TiledLayer[] {
+        const { width, height } = mapData;
+        const grids = {
+            floor: new Array<number>(width * height).fill(0),
+            wall: new Array<number>(width * height).fill(0),
+            furniture: new Array<number>(width * height).fill(0)
+        };
+
+        mapData.tiles.forEach(tile => {
+            const gid = this.gidOf(tile, columns);
+            if (!gid) return;
+            // Multi-tile furniture fills its whole footprint, so collisions match the game
+            for (let dy = 0; dy < (tile.height ?? 1); dy++) {
+                for (let dx = 0; dx < (tile.width ?? 1); dx++) {
+                    const x = tile.x + dx;
+                    const y = tile.y + dy;
+                    if (x < 0 || y < 0 || x >= width || y >= height) continue;
+                    grids[tile.layer][y * width + x] = gid;
+                }
+            }
+        });
+
+        const tileLayer = (name: string, data: number[]): TiledTileLayer => ({
+            ...this.layerBase(ids, name), type: 'tilelayer', width, height, data
+        });
+
+        const rooms: TiledObject[] = mapData.rooms.map(room => ({
+            id: ids.object++,
+            name: room.name || room.type,
+            type: room.type,
+            x: room.x * TILE_SIZE,
+            y: room.y * TILE_SIZE,
+            width: room.width * TILE_SIZE,
+            height: room.height * TILE_SIZE,
+            rotation: 0,
+            visible: true,
+            properties: [
+                { name: 'id', type: 'string', value: room.id },
+                { name: 'name', type: 'string', value: room.name || room.type },
+                { name: 'type', type: 'string', value: room.type }
+            ]
+        }));
+
+        const doors: TiledObject[] = mapData.tiles
+            .filter(tile => tile.layer === 'furniture' && tile.sprite.includes('door'))
+            .map(tile => ({
+                id: ids.object++,
+                name: 'Door',
+                type: 'door',
+                x: tile.x * TILE_SIZE + TILE_SIZE / 2,
+                y: tile.y * TILE_SIZE + TILE_SIZE / 2,
+                width: 0,
+                height: 0,
+                rotation: 0,
+                visible: true,
+                point: true,
+                properties: [
+                    { name: 'id', type: 'string', value: `door_${tile.x}_${tile.y}` },
+                    { name: 'name', type: 'string', value: 'Door' },
+                    { name: 'type', type: 'string', value: 'door' }
+                ]
+            }));
+
+        const objectLayer = (name: string, objects: TiledObject[]): TiledObjectLayer => ({
+            ...this.layerBase(ids, name), type: 'objectgroup', draworder: 'topdown', objects
+        });
+
+        return [
+            tileLayer('Floor', grids.floor),
+            tileLayer('Walls', grids.wall),
+            tileLayer('Furniture', grids.furniture),
+            objectLayer('Rooms', rooms),
+            objectLayer('Doors', doors)
+        ];
+    }
+
+    private static layerBase(ids: { layer: number }, name: string): TiledLayerBase {
+        return { id: ids.layer++, name, opacity: 1, visible: true, x: 0, y: 0 };
+    }
+
+    /**
+     * Atlas frame of the tile's sprite as a GID, with the rotation encoded as flip flags.
+     */
+    private static gidOf(tile: TileData, columns: number): number {
+        const frameName = AssetMapper.getSpriteConfig(tile.sprite).frame;
+        const frame = (atlas.frames as Record<string, { frame: { x: number, y: number } }>)[frameName]?.frame;
+        if (!frame) return 0;
+
+        const gid = 1 + (frame.y / TILE_SIZE) * columns + frame.x / TILE_SIZE;
+        switch (tile.rotation ?? 0) {
+            case 90: return (gid | FLIPPED_DIAGONALLY | FLIPPED_HORIZONTALLY) >>> 0;
+            case 180: return (gid | FLIPPED_HORIZONTALLY | FLIPPED_VERTICALLY) >>> 0;
+            case 270: return (gid | FLIPPED_DIAGONALLY | FLIPPED_VERTICALLY) >>> 0;
+            default: return gid;
+        }
+    }
+
+    private static layerXml(layer: TiledLayer, indent: string): string[] {
+        const head = `id="${layer.id}" name="${this.escape(layer.name)}"`;
+        const inner = indent + ' ';
+
+        if (layer.type === 'tilelayer') {
+            const rows: string[] = [];
+            for (let y = 0; y < layer.height; y++) {
+                rows.push(layer.data.slice(y * layer.width, (y + 1) * layer.width).join(','));
+            }
+            return [
+                `${indent}<layer ${head} width="${layer.width}" height="${layer.height}">`,
+                ...this.propertiesXml(layer.properties, inner),
+                `${inner}<data encoding="csv">`,
+                rows.join(',\n'),
+                `${inner}</data>`,
+                `${indent}</layer>`
+            ];
+        }
+
+        if (layer.type === 'objectgroup') {
+            return [
+                `${indent}<objectgroup ${head}>`,
+                ...this.propertiesXml(layer.properties, inner),
+                ...layer.objects.flatMap(obj => {
+                    const size = obj.point ? '' : ` width="${obj.width}" height="${obj.height}"`;
+                    return [
+                        `${inner}<object id="${obj.id}" name="${this.escape(obj.name)}" type="${this.escape(obj.type)}" x="${obj.x}" y="${obj.y}"${size}>`,
+                        ...this.propertiesXml(obj.properties, inner + ' '),
+                        ...(obj.point ? [`${inner} <point/>`] : []),
+                        `${inner}</object>`
+                    ];
+                }),
+                `${indent}</objectgroup>`
+            ];
+        }
+
+        return [
+            `${indent}<group ${head}>`,
+            ...this.propertiesXml(layer.properties, inner),
+            ...layer.layers.flatMap(child => this.layerXml(child, inner)),
+            `${indent}</group>`
+        ];
+    }
+
+    private static propertiesXml(properties: TiledProperty[] | undefined, indent: string): string[] {
+        if (!properties || properties.length === 0) return [];
+        return [
+            `${indent}<properties>`,
+            ...properties.map(p => `${indent} <property name="${this.escape(p.name)}" type="${p.type}" value="${this.escape(String(p.value))}"/>`),
+            `${indent}</properties>`
+        ];
+    }
+
+    private static escape(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+}
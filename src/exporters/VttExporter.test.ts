@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { VttExporter } from './VttExporter';
+import { MapData, TileData } from '../types/MapData';
+
+// 5x4 walled room, interior (1..3, 1..2), door in the top wall at (2, 0), fire in the middle
+const walls: TileData[] = [];
+for (let y = 0; y < 4; y++) {
+    for (let x = 0; x < 5; x++) {
+        const border = x === 0 || y === 0 || x === 4 || y === 3;
+        if (border && !(x === 2 && y === 0)) walls.push({ x, y, sprite: 'wall', layer: 'wall' });
+    }
+}
+const mapData: MapData = {
+    width: 5,
+    height: 4,
+    seed: 3,
+    tiles: [
+        ...walls,
+        { x: 2, y: 0, sprite: 'door', layer: 'furniture' },
+        { x: 2, y: 2, sprite: 'fireplace', layer: 'furniture' }
+    ],
+    rooms: [{ id: 'r1', name: 'Hall', type: 'hall', x: 1, y: 1, width: 3, height: 2, doors: [{ x: 2, y: 1 }] }]
+};
+
+describe('VttExporter', () => {
+    it('traces wall faces and merges them into straight runs', () => {
+        const segments = VttExporter.buildWalls(mapData);
+        expect(segments).toEqual(expect.arrayContaining([
+            { x1: 1, y1: 3, x2: 4, y2: 3 }, // Bottom face, one run
+            { x1: 1, y1: 1, x2: 1, y2: 3 }, // Left face
+            { x1: 4, y1: 1, x2: 4, y2: 3 }, // Right face
+            { x1: 1, y1: 1, x2: 2, y2: 1 }, // Top face, split by the doorway
+            { x1: 3, y1: 1, x2: 4, y2: 1 }
+        ]));
+        // No faces against the map border
+        expect(segments.some(s => (s.x1 === 0 && s.x2 === 0) || (s.y1 === 4 && s.y2 === 4))).toBe(false);
+    });
+
+    it('closes the doorway across the wall, snapping the inner door spot to the door tile', () => {
+        expect(VttExporter.buildDoors(mapData)).toEqual([{ x1: 2, y1: 0.5, x2: 3, y2: 0.5 }]);
+    });
+
+    it('turns catalog lights into light sources at the item centre', () => {
+        expect(VttExporter.buildLights(mapData)).toEqual([{ x: 2.5, y: 2.5, radius: 6, color: '#ff9933', intensity: 1.2, flicker: 0.3 }]);
+    });
+
+    it('writes a Universal VTT file with the image payload only', () => {
+        const file = VttExporter.toDd2vtt(mapData, 0, 'data:image/png;base64,AAAA', 100) as Record<string, unknown>;
+        expect(file).toMatchObject({
+            format: 0.3,
+            resolution: { map_origin: { x: 0, y: 0 }, map_size: { x: 5, y: 4 }, pixels_per_grid: 100 },
+            portals: [{ position: { x: 2.5, y: 0.5 }, rotation: 0, closed: true }],
+            lights: [{ position: { x: 2.5, y: 2.5 }, range: 6, color: 'ffff9933' }],
+            image: 'AAAA'
+        });
+    });
+
+    it('writes a Foundry scene with walls and doors in pixels', () => {
+        const scene = VttExporter.toFoundryScene(mapData, 0, 'Hall', 'maps/hall.png', 100) as { walls: { c: number[], door: number }[], width: number };
+        expect(scene.width).toBe(500);
+        expect(scene.walls.filter(w => w.door === 1).map(w => w.c)).toEqual([[200, 50, 300, 50]]);
+        expect(scene.walls.filter(w => w.door === 0)).toHaveLength(VttExporter.buildWalls(mapData).length);
+    });
+});
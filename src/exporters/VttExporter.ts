@@ -0,0 +1,230 @@
+import { MapData, getLevelView } from '../types/MapData';
+import { FurnitureCatalog } from '../generators/FurnitureCatalog';
+
+// Virtual tabletop export: Universal VTT (.dd2vtt, used by Dungeondraft/Arkenforge/Foundry importers)
+// and a native Foundry VTT scene. Walls are traced from the wall layer, not redrawn by hand.
+
+const FEET_PER_SQUARE = 5;
+
+// Line segment in grid units (1 = one tile)
+export interface Segment {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
+
+export interface VttLight {
+    x: number; // Grid units, centre of the source
+    y: number;
+    radius: number; // Tiles
+    color: string; // '#rrggbb'
+    intensity: number;
+    flicker: number;
+}
+
+// Foundry wall/door constants (CONST.WALL_SENSE_TYPES.NORMAL, CONST.WALL_DOOR_TYPES.DOOR)
+const FOUNDRY_SENSE_NORMAL = 20;
+const FOUNDRY_DOOR = 1;
+const FOUNDRY_DOOR_CLOSED = 0;
+
+export class VttExporter {
+    /**
+     * Wall edges (wall tile next to a non-wall tile), merged into the longest straight runs.
+     * The map border counts as wall, so walls on the edge of the map don't get an outer face.
+     */
+    static buildWalls(mapData: MapData): Segment[] {
+        const { width, height } = mapData;
+        const wall: boolean[][] = Array(height).fill(0).map(() => Array(width).fill(false));
+        mapData.tiles.forEach(tile => {
+            if (tile.layer === 'wall' && tile.x >= 0 && tile.y >= 0 && tile.x < width && tile.y < height) wall[tile.y][tile.x] = true;
+        });
+        const isWall = (x: number, y: number) => x < 0 || y < 0 || x >= width || y >= height || wall[y][x];
+
+        const segments: Segment[] = [];
+
+        // Horizontal edges on grid line y (between rows y-1 and y)
+        for (let y = 0; y <= height; y++) {
+            let start = -1;
+            for (let x = 0; x <= width; x++) {
+                const edge = x < width && isWall(x, y - 1) !== isWall(x, y);
+                if (edge && start < 0) start = x;
+                if (!edge && start >= 0) {
+                    segments.push({ x1: start, y1: y, x2: x, y2: y });
+                    start = -1;
+                }
+            }
+        }
+
+        // Vertical edges on grid line x (between columns x-1 and x)
+        for (let x = 0; x <= width; x++) {
+            let start = -1;
+            for (let y = 0; y <= height; y++) {
+                const edge = y < height && isWall(x - 1, y) !== isWall(x, y);
+                if (edge && start < 0) start = y;
+                if (!edge && start >= 0) {
+                    segments.push({ x1: x, y1: start, x2: x, y2: y });
+                    start = -1;
+                }
+            }
+        }
+
+        return segments;
+    }
+
+    /**
+     * Door segments from RoomData.doors, drawn across the doorway in line with the wall.
+     * Generators store either the door tile itself or the floor tile just inside it,
+     * so the nearest door tile wins. Wide doors (2 tiles) come out as one segment.
+     */
+    static buildDoors(mapData: MapData): Segment[] {
+        const { width, height } = mapData;
+        const doorTiles = new Set(mapData.tiles
+            .filter(t => t.layer === 'furniture' && t.sprite.includes('door'))
+            .map(t => `${t.x},${t.y}`));
+        const walls = new Set(mapData.tiles.filter(t => t.layer === 'wall').map(t => `${t.x},${t.y}`));
+        const solid = (x: number, y: number) => x < 0 || y < 0 || x >= width || y >= height || walls.has(`${x},${y}`);
+
+        // 1. Doorway cells
+        const cells = new Map<string, { x: number, y: number }>();
+        mapData.rooms.forEach(room => room.doors?.forEach(d => {
+            const candidates = [d, { x: d.x + 1, y: d.y }, { x: d.x - 1, y: d.y }, { x: d.x, y: d.y + 1 }, { x: d.x, y: d.y - 1 }];
+            const cell = candidates.find(c => doorTiles.has(`${c.x},${c.y}`)) ?? d;
+            cells.set(`${cell.x},${cell.y}`, cell);
+        }));
+
+        // 2. One half-tile segment per cell, oriented along the wall it sits in
+        const horizontal = new Map<number, number[]>(); // y -> xs
+        const vertical = new Map<number, number[]>(); // x -> ys
+        cells.forEach(({ x, y }) => {
+            const inRow = (solid(x - 1, y) || cells.has(`${x - 1},${y}`)) && (solid(x + 1, y) || cells.has(`${x + 1},${y}`));
+            const inColumn = (solid(x, y - 1) || cells.has(`${x},${y - 1}`)) && (solid(x, y + 1) || cells.has(`${x},${y + 1}`));
+            // Thick walls give 2x2 doorways (both true): follow the side that touches real wall
+            const rowWall = solid(x - 1, y) || solid(x + 1, y);
+            if (inRow && (!inColumn || rowWall)) {
+                if (!horizontal.has(y)) horizontal.set(y, []);
+                horizontal.get(y)!.push(x);
+            } else if (inColumn) {
+                if (!vertical.has(x)) vertical.set(x, []);
+                vertical.get(x)!.push(y);
+            }
+            // Otherwise an opening in open space (cave mouth): nothing to close
+        });
+
+        // 3. Merge neighbouring cells
+        const segments: Segment[] = [];
+        const merge = (values: number[], emit: (from: number, to: number) => void) => {
+            const sorted = [...values].sort((a, b) => a - b);
+            let from = sorted[0];
+            for (let i = 1; i <= sorted.length; i++) {
+                if (i < sorted.length && sorted[i] === sorted[i - 1] + 1) continue;
+                emit(from, sorted[i - 1] + 1);
+                from = sorted[i];
+            }
+        };
+        horizontal.forEach((xs, y) => merge(xs, (from, to) => segments.push({ x1: from, y1: y + 0.5, x2: to, y2: y + 0.5 })));
+        vertical.forEach((ys, x) => merge(ys, (from, to) => segments.push({ x1: x + 0.5, y1: from, x2: x + 0.5, y2: to })));
+
+        return segments;
+    }
+
+    static buildLights(mapData: MapData): VttLight[] {
+        return mapData.tiles.flatMap(tile => {
+            if (tile.layer !== 'furniture') return [];
+            const light = FurnitureCatalog.resolve(tile.sprite)?.light;
+            if (!light) return [];
+            return [{
+                x: tile.x + (tile.width ?? 1) / 2,
+                y: tile.y + (tile.height ?? 1) / 2,
+                radius: light.radius,
+                color: light.color,
+                intensity: light.intensity ?? 1,
+                flicker: light.flicker ?? 0
+            }];
+        });
+    }
+
+    /**
+     * Universal VTT file. `image` is the rendered level as a PNG data URL.
+     */
+    static toDd2vtt(mapData: MapData, level: number, image: string, pixelsPerGrid: number): object {
+        const view = getLevelView(mapData, level);
+        const point = (x: number, y: number) => ({ x, y });
+
+        return {
+            format: 0.3,
+            resolution: {
+                map_origin: point(0, 0),
+                map_size: point(view.width, view.height),
+                pixels_per_grid: pixelsPerGrid
+            },
+            line_of_sight: this.buildWalls(view).map(s => [point(s.x1, s.y1), point(s.x2, s.y2)]),
+            objects_line_of_sight: [],
+            portals: this.buildDoors(view).map(s => ({
+                position: point((s.x1 + s.x2) / 2, (s.y1 + s.y2) / 2),
+                bounds: [point(s.x1, s.y1), point(s.x2, s.y2)],
+                rotation: s.y1 === s.y2 ? 0 : Math.PI / 2,
+                closed: true,
+                freestanding: false
+            })),
+            environment: {
+                baked_lighting: false,
+                ambient_light: 'ffffffff'
+            },
+            lights: this.buildLights(view).map(l => ({
+                position: point(l.x, l.y),
+                range: l.radius,
+                intensity: l.intensity,
+                color: `ff${l.color.replace('#', '')}`, // AARRGGBB
+                shadows: true
+            })),
+            image: image.replace(/^data:image\/\w+;base64,/, '')
+        };
+    }
+
+    /**
+     * Foundry VTT scene (Scenes > Import Data). Foundry can't embed the image:
+     * `imagePath` is where the background PNG will be uploaded.
+     */
+    static toFoundryScene(mapData: MapData, level: number, name: string, imagePath: string, pixelsPerGrid: number): object {
+        const view = getLevelView(mapData, level);
+        const px = (v: number) => Math.round(v * pixelsPerGrid);
+        const coords = (s: Segment) => [px(s.x1), px(s.y1), px(s.x2), px(s.y2)];
+        const wall = (s: Segment, door: boolean) => ({
+            c: coords(s),
+            move: FOUNDRY_SENSE_NORMAL,
+            sight: FOUNDRY_SENSE_NORMAL,
+            light: FOUNDRY_SENSE_NORMAL,
+            sound: FOUNDRY_SENSE_NORMAL,
+            door: door ? FOUNDRY_DOOR : 0,
+            ds: FOUNDRY_DOOR_CLOSED
+        });
+
+        return {
+            name,
+            width: px(view.width),
+            height: px(view.height),
+            padding: 0,
+            background: { src: imagePath },
+            grid: { type: 1, size: pixelsPerGrid, distance: FEET_PER_SQUARE, units: 'ft' },
+            tokenVision: true,
+            fogExploration: true,
+            walls: [
+                ...this.buildWalls(view).map(s => wall(s, false)),
+                ...this.buildDoors(view).map(s => wall(s, true))
+            ],
+            lights: this.buildLights(view).map(l => ({
+                x: px(l.x),
+                y: px(l.y),
+                config: {
+                    bright: l.radius * FEET_PER_SQUARE / 2,
+                    dim: l.radius * FEET_PER_SQUARE,
+                    color: l.color,
+                    alpha: 0.4 * Math.min(1, l.intensity),
+                    animation: l.flicker > 0 ? { type: 'torch', speed: 5, intensity: Math.round(1 + l.flicker * 9) } : {}
+                }
+            })),
+            flags: { neurpg: { seed: mapData.seed, level } }
+        };
+    }
+}
@@ -1,3 +1,5 @@
+import { FurnitureCatalog } from '../generators/FurnitureCatalog';
+
 export interface SpriteConfig {
     texture: string;
     frame: string;
@@ -22,6 +24,9 @@ export class AssetMapper {
             if (k.includes('entrance') || k.includes('foyer') || k.includes('lobby')) return { texture: atlasKey, frame: 'floor_wood', tint: 0xccaa88 }; // Welcoming
             if (k.includes('living') || k.includes('common') || k.includes('library') || k.includes('ballroom')) return { texture: atlasKey, frame: 'floor_wood', tint: 0xffeebb };
             
+            // Natural Floors (Organic biomes)
+            if (k.includes('mud') || k.includes('dirt')) return { texture: atlasKey, frame: 'sand', tint: 0x7a5c3a };
+
             // Generic Floors Fallback
             if (k.includes('wood')) return { texture: atlasKey, frame: 'floor_wood' };
             if (k.includes('stone') || k.includes('rock')) return { texture: atlasKey, frame: 'floor_stone' };
@@ -40,8 +45,12 @@ export class AssetMapper {
         // 3. DOORS
         if (k.includes('door')) return { texture: atlasKey, frame: 'door_wood' };
 
-        // 4. FURNITURE & OBJECTS (Specific Names)
-        if (k === 'bed' || k.includes('bunk') || k.includes('cot') || k.includes('poster bed')) return { texture: atlasKey, frame: 'bed' };
+        // 4. FURNITURE & OBJECTS (Furniture Catalog: ids + aliases)
+        const item = FurnitureCatalog.resolve(k);
+        if (item) return { texture: atlasKey, frame: item.sprite.frame, tint: FurnitureCatalog.parseTint(item.sprite.tint) };
+
+        // 4b. Substring fallback for names the catalog doesn't know ("tablecloth", "bookcase_large", "oaktable")
+        if (k.includes('bunk') || k.includes('cot') || k.includes('poster bed')) return { texture: atlasKey, frame: 'bed' };
         if (k.includes('chair') || k.includes('sofa') || k.includes('throne') || k.includes('stool') || k.includes('seat')) return { texture: atlasKey, frame: 'chair' };
         if (k.includes('table') || k.includes('desk') || k.includes('counter') || k.includes('bench') || k.includes('sink') || k.includes('stove') || k.includes('piano')) return { texture: atlasKey, frame: 'table' };
         if (k.includes('chest') || k.includes('box') || k.includes('crate') || k.includes('shelf') || k.includes('book') || k.includes('cabinet') || k.includes('wardrobe')) return { texture: atlasKey, frame: 'chest' };
@@ -50,6 +59,9 @@ export class AssetMapper {
 
         // 5. NATURE
         if (k.includes('tree') || k.includes('plant') || k.includes('bush')) return { texture: atlasKey, frame: 'tree' };
+        if (k.includes('mushroom') || k.includes('fung')) return { texture: atlasKey, frame: 'tree', tint: 0xcc99ff };
+        if (k.includes('reed')) return { texture: atlasKey, frame: 'grass', tint: 0x99aa55 };
+        if (k.includes('boulder')) return { texture: atlasKey, frame: 'wall_stone', tint: 0x999999 };
         if (k.includes('water') || k.includes('pond') || k.includes('river') || k.includes('pool')) return { texture: atlasKey, frame: 'water' };
         if (k.includes('sand') || k.includes('desert')) return { texture: atlasKey, frame: 'sand' };
         if (k.includes('grass') || k.includes('lawn')) return { texture: atlasKey, frame: 'grass' };
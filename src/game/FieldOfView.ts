@@ -0,0 +1,90 @@
+import { MapData } from '../types/MapData';
+
+// One scanned row of a quadrant (Albert Ford's symmetric shadowcasting)
+interface Row {
+    depth: number;
+    startSlope: number;
+    endSlope: number;
+}
+
+/**
+ * Symmetric shadowcasting field of view: if A sees B, B sees A.
+ * Works on a plain opacity grid so it doesn't care which generator drew the map.
+ */
+export class FieldOfView {
+    /**
+     * Wall-layer tiles and closed doors block sight. `openDoors` holds "x,y" keys.
+     */
+    static buildOpacityGrid(mapData: MapData, openDoors: Set<string>): boolean[][] {
+        const opaque: boolean[][] = Array(mapData.height).fill(0).map(() => Array(mapData.width).fill(false));
+
+        mapData.tiles.forEach(tile => {
+            if (tile.x < 0 || tile.y < 0 || tile.x >= mapData.width || tile.y >= mapData.height) return;
+            if (tile.layer === 'wall') opaque[tile.y][tile.x] = true;
+            if (tile.layer === 'furniture' && tile.sprite.includes('door') && !openDoors.has(`${tile.x},${tile.y}`)) {
+                opaque[tile.y][tile.x] = true;
+            }
+        });
+        return opaque;
+    }
+
+    /**
+     * Marks every cell visible from (ox, oy) within `radius` cells in `visible`.
+     * Outside the grid counts as opaque.
+     */
+    static compute(opaque: boolean[][], ox: number, oy: number, radius: number, visible: boolean[][]): void {
+        const height = opaque.length;
+        const width = opaque[0]?.length ?? 0;
+        const inBounds = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height;
+        if (!inBounds(ox, oy)) return;
+
+        visible[oy][ox] = true;
+
+        // North, East, South, West
+        const transforms: ((row: number, col: number) => [number, number])[] = [
+            (row, col) => [ox + col, oy - row],
+            (row, col) => [ox + row, oy + col],
+            (row, col) => [ox + col, oy + row],
+            (row, col) => [ox - row, oy + col]
+        ];
+
+        for (const transform of transforms) {
+            const isWall = (row: number, col: number) => {
+                const [x, y] = transform(row, col);
+                return !inBounds(x, y) || opaque[y][x];
+            };
+            const reveal = (row: number, col: number) => {
+                const [x, y] = transform(row, col);
+                if (inBounds(x, y) && row * row + col * col <= radius * radius) visible[y][x] = true;
+            };
+
+            const scan = (row: Row) => {
+                if (row.depth > radius) return;
+
+                const minCol = Math.floor(row.depth * row.startSlope + 0.5); // Round ties up
+                const maxCol = Math.ceil(row.depth * row.endSlope - 0.5); // Round ties down
+                let prevWall: boolean | null = null;
+
+                for (let col = minCol; col <= maxCol; col++) {
+                    const wall = isWall(row.depth, col);
+                    const symmetric = col >= row.depth * row.startSlope && col <= row.depth * row.endSlope;
+                    if (wall || symmetric) reveal(row.depth, col);
+
+                    if (prevWall === true && !wall) {
+                        row.startSlope = (2 * col - 1) / (2 * row.depth);
+                    }
+                    if (prevWall === false && wall) {
+                        scan({ depth: row.depth + 1, startSlope: row.startSlope, endSlope: (2 * col - 1) / (2 * row.depth) });
+                    }
+                    prevWall = wall;
+                }
+
+                if (prevWall === false) {
+                    scan({ depth: row.depth + 1, startSlope: row.startSlope, endSlope: row.endSlope });
+                }
+            };
+
+            scan({ depth: 1, startSlope: -1, endSlope: 1 });
+        }
+    }
+}
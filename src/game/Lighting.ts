@@ -0,0 +1,90 @@
+import { MapData } from '../types/MapData';
+import { FieldOfView } from './FieldOfView';
+import { FurnitureCatalog } from '../generators/FurnitureCatalog';
+
+// Base light level of a scene: 1 = fully lit (lighting pass off), 0 = pitch black
+export interface AmbientLight {
+    level: number;
+    color: number; // Tint of the unlit areas (moonlight, toxic haze)
+}
+
+// A placed light with the cells it reaches, precomputed once per level
+export interface LightSource {
+    x: number;
+    y: number;
+    color: number;
+    intensity: number;
+    flicker: number; // 0 = steady, 1 = can drop to darkness between frames
+    cells: { x: number, y: number, weight: number }[];
+}
+
+/**
+ * Per-tile point lights from catalog furniture. Light travels like sight:
+ * the same shadowcasting (and opacity grid) as the fog, so walls and closed doors block it.
+ */
+export class Lighting {
+    /**
+     * Finds every furniture tile with a catalog `light` and bakes its falloff.
+     */
+    static collect(mapData: MapData, opaque: boolean[][]): LightSource[] {
+        const lights: LightSource[] = [];
+
+        mapData.tiles.forEach(tile => {
+            if (tile.layer !== 'furniture') return;
+            const light = FurnitureCatalog.resolve(tile.sprite)?.light;
+            if (!light) return;
+
+            // Emit from the middle of the footprint
+            const x = tile.x + Math.floor((tile.width ?? 1) / 2);
+            const y = tile.y + Math.floor((tile.height ?? 1) / 2);
+
+            const lit: boolean[][] = Array(mapData.height).fill(0).map(() => Array(mapData.width).fill(false));
+            FieldOfView.compute(opaque, x, y, light.radius, lit);
+
+            const cells: LightSource['cells'] = [];
+            for (let cy = 0; cy < mapData.height; cy++) {
+                for (let cx = 0; cx < mapData.width; cx++) {
+                    if (!lit[cy][cx]) continue;
+                    // Quadratic falloff, full strength on the source itself
+                    const falloff = 1 - Math.hypot(cx - x, cy - y) / (light.radius + 1);
+                    cells.push({ x: cx, y: cy, weight: falloff * falloff });
+                }
+            }
+
+            lights.push({
+                x, y,
+                color: FurnitureCatalog.parseTint(light.color) ?? 0xffffff,
+                intensity: light.intensity ?? 1,
+                flicker: light.flicker ?? 0,
+                cells
+            });
+        });
+
+        return lights;
+    }
+
+    /**
+     * Light map as packed 0xRRGGBB per cell: ambient everywhere, plus every light
+     * scaled by its current flicker factor (`factors[i]`, 1 = steady). Clamped per channel.
+     */
+    static shade(lights: LightSource[], width: number, height: number, ambient: AmbientLight, factors: number[]): number[][] {
+        const r = Array(height).fill(0).map(() => Array(width).fill(((ambient.color >> 16) & 0xff) / 255 * ambient.level));
+        const g = Array(height).fill(0).map(() => Array(width).fill(((ambient.color >> 8) & 0xff) / 255 * ambient.level));
+        const b = Array(height).fill(0).map(() => Array(width).fill((ambient.color & 0xff) / 255 * ambient.level));
+
+        lights.forEach((light, i) => {
+            const strength = light.intensity * (factors[i] ?? 1);
+            const lr = ((light.color >> 16) & 0xff) / 255 * strength;
+            const lg = ((light.color >> 8) & 0xff) / 255 * strength;
+            const lb = (light.color & 0xff) / 255 * strength;
+            light.cells.forEach(c => {
+                r[c.y][c.x] += lr * c.weight;
+                g[c.y][c.x] += lg * c.weight;
+                b[c.y][c.x] += lb * c.weight;
+            });
+        });
+
+        const channel = (v: number) => Math.round(Math.min(1, v) * 255);
+        return r.map((row, y) => row.map((_, x) => (channel(r[y][x]) << 16) | (channel(g[y][x]) << 8) | channel(b[y][x])));
+    }
+}
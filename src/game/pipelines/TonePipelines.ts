@@ -1,4 +1,14 @@
 import Phaser from 'phaser';
+import { ToneType } from '../../types/MapConfig';
+import { AmbientLight } from '../Lighting';
+
+// Ambient light each tone sets for the lighting pass (level 1 = pass off, map drawn as-is)
+export const TONE_AMBIENT: Record<ToneType, AmbientLight> = {
+    Normal: { level: 1, color: 0xffffff },
+    Sepia: { level: 1, color: 0xffffff },
+    Night: { level: 0.3, color: 0x8899cc },
+    Toxic: { level: 0.6, color: 0xaaddaa }
+};
 
 const sepiaFragmentShader = `
 precision mediump float;
@@ -20,14 +30,15 @@ varying vec2 outTexCoord;
 
 void main(void) {
     vec4 color = texture2D(uMainSampler, outTexCoord);
-    // Deep Blue tint + high contrast + darken
-    // Reduce Red/Green significantly, boost Blue
-    vec3 night = vec3(color.r * 0.1, color.g * 0.2, color.b * 1.5);
-    
-    // Vignette-like darkness (simple multiplier)
-    float brightness = 0.5;
-    
-    gl_FragColor = vec4(night * brightness, color.a);
+    float lum = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+
+    // Moonlight: Reduce Red/Green, boost Blue
+    vec3 moon = color.rgb * vec3(0.35, 0.5, 1.2);
+
+    // Lighting-aware: pixels the lighting pass left bright (torches, fires) keep their warm colour
+    float lit = smoothstep(0.2, 0.55, lum);
+
+    gl_FragColor = vec4(mix(moon, color.rgb, lit), color.a);
 }
 `;
 
@@ -49,6 +60,22 @@ void main(void) {
 }
 `;
 
+// CPU versions of the shaders above (0..1 in, 0..1+ out), for image exports.
+// Keep in sync with the fragment shaders.
+export const TONE_FILTERS: Partial<Record<ToneType, (r: number, g: number, b: number) => [number, number, number]>> = {
+    Sepia: (r, g, b) => {
+        const gray = r * 0.299 + g * 0.587 + b * 0.114;
+        return [gray * 1.2, gray, gray * 0.8];
+    },
+    Night: (r, g, b) => {
+        const lum = r * 0.299 + g * 0.587 + b * 0.114;
+        const t = Math.min(1, Math.max(0, (lum - 0.2) / (0.55 - 0.2)));
+        const lit = t * t * (3 - 2 * t); // smoothstep
+        return [r * 0.35 + (r - r * 0.35) * lit, g * 0.5 + (g - g * 0.5) * lit, b * 1.2 + (b - b * 1.2) * lit];
+    },
+    Toxic: (r, g) => [r > 0.5 ? 0.5 : 0, g * 2, 0]
+};
+
 export class SepiaPipeline extends Phaser.Renderer.WebGL.Pipelines.PostFXPipeline {
     constructor(game: Phaser.Game) {
         super({
@@ -1,8 +1,25 @@
 import Phaser from 'phaser';
+import * as EasyStar from 'easystarjs';
 import { AssetLoader } from '../AssetLoader';
 import { AssetMapper } from '../AssetMapper';
+import { FieldOfView } from '../FieldOfView';
+import { Lighting, LightSource, AmbientLight } from '../Lighting';
+import { TONE_AMBIENT, TONE_FILTERS } from '../pipelines/TonePipelines';
+import { MapAnalyzer } from '../../generators/MapAnalyzer';
 
-import { MapData } from '../../types/MapData';
+import { MapData, getLevelView, CELL_OPEN, CELL_DIFFICULT } from '../../types/MapData';
+import { Token, TokenMove } from '../../types/Token';
+import { ToneType } from '../../types/MapConfig';
+import { SnapshotOptions } from '../../types/Snapshot';
+
+const TILE_SIZE = 32;
+const FEET_PER_SQUARE = 5;
+const DEFAULT_VISION = 12; // Squares (60 ft)
+const SNAPSHOT_CHUNK = 2048; // Max render texture side for exports, larger images are stitched
+
+// Container children are plain GameObjects in Phaser's types; the ones we add all have the Visible component
+const isVisibleObject = (child: Phaser.GameObjects.GameObject): child is Phaser.GameObjects.GameObject & Phaser.GameObjects.Components.Visible =>
+  'setVisible' in child;
 
 export class MainScene extends Phaser.Scene {
   private assetLoader!: AssetLoader;
@@ -10,6 +27,40 @@ export class MainScene extends Phaser.Scene {
   private floorBlitter!: Phaser.GameObjects.Blitter;
   private controls!: Phaser.Cameras.Controls.SmoothedKeyControl;
 
+  // Multi-level State
+  private currentMap: MapData | null = null;
+  private currentLevel = 0;
+
+  // Movement State (click marker, then a destination square)
+  private marker: { x: number, y: number, level: number } | null = null;
+  private markerShape: Phaser.GameObjects.Arc | null = null;
+  private markerSelected = false;
+  private markerMoving = false;
+  private pathGraphics: Phaser.GameObjects.Graphics | null = null;
+  private pathText: Phaser.GameObjects.Text | null = null;
+
+  // Token State (owned by the React initiative tracker)
+  private tokenContainer!: Phaser.GameObjects.Container;
+  private tokens: Token[] = [];
+  private activeTokenId: string | null = null;
+  private draggingToken = false;
+  private lastTokenDrop = 0;
+
+  // Fog of War State
+  private fogGraphics!: Phaser.GameObjects.Graphics;
+  private revealAll = false; // GM toggle
+  private explored = new Map<number, boolean[][]>(); // Per level, persists while viewers move
+  private visible: boolean[][] = [];
+  private opacity: boolean[][] | null = null; // Cached per level, rebuilt when a door changes
+  private openDoors = new Set<string>(); // "level,x,y"
+  private doorSprites = new Map<string, Phaser.GameObjects.Sprite>(); // "x,y" on the current level
+
+  // Lighting State (point lights from furniture, ambient from the tone)
+  private lightGraphics!: Phaser.GameObjects.Graphics;
+  private tone: ToneType = 'Normal';
+  private ambient: AmbientLight = TONE_AMBIENT.Normal;
+  private lightSources: LightSource[] | null = null; // Cached per level, rebuilt when a door changes
+
   // Touch State
   private pinchState = {
       active: false,
@@ -32,6 +83,9 @@ export class MainScene extends Phaser.Scene {
     // Rendering Layers
     this.floorBlitter = this.add.blitter(0, 0, 'main_atlas');
     this.mapContainer = this.add.container(0, 0);
+    this.lightGraphics = this.add.graphics().setBlendMode(Phaser.BlendModes.MULTIPLY); // Darkens the map below it
+    this.fogGraphics = this.add.graphics(); // Between map and tokens
+    this.tokenContainer = this.add.container(0, 0); // Above the map, survives redraws and tone changes
 
     // Input - Enable Multi-touch
     this.input.addPointer(1); // Ensure at least 2 pointers (0 and 1)
@@ -58,7 +112,7 @@ export class MainScene extends Phaser.Scene {
     this.input.on('wheel', this.handleWheel, this);
 
     // Instructions
-    this.add.text(16, 60, 'Controls:\nArrows/Drag to Pan\nScroll/Pinch to Zoom\n[D] Debug Info', {
+    this.add.text(16, 60, 'Controls:\nArrows/Drag to Pan\nScroll/Pinch to Zoom\nClick Marker, then a Square to Move\nClick a Door to Open/Close\n[D] Debug Info', {
         fontSize: '14px',
         color: '#aaaaaa'
     });
@@ -89,8 +143,21 @@ export class MainScene extends Phaser.Scene {
         if (tone === 'Sepia') this.cameras.main.setPostPipeline('SepiaPipeline');
         if (tone === 'Night') this.cameras.main.setPostPipeline('NightPipeline');
         if (tone === 'Toxic') this.cameras.main.setPostPipeline('ToxicPipeline');
+
+        this.tone = TONE_AMBIENT[tone as ToneType] ? tone as ToneType : 'Normal';
+        this.ambient = TONE_AMBIENT[this.tone];
+        this.updateLighting();
     }) as EventListener);
 
+    // Flicker (~10 fps is enough for flames)
+    this.time.addEvent({
+        delay: 100,
+        loop: true,
+        callback: () => {
+            if (this.ambient.level < 1 && this.lightSources?.some(l => l.flicker > 0)) this.updateLighting();
+        }
+    });
+
     // Listen for Map Draw Events
     window.addEventListener('PHASER_DRAW_MAP', ((e: CustomEvent) => {
         if (!this.sys || !this.sys.isActive()) return;
@@ -99,6 +166,62 @@ export class MainScene extends Phaser.Scene {
         this.renderMap(mapData);
     }) as EventListener);
 
+    // Listen for Level Switch Events (keeps camera position)
+    window.addEventListener('PHASER_SET_LEVEL', ((e: CustomEvent) => {
+        if (!this.sys || !this.sys.isActive() || !this.currentMap) return;
+
+        this.currentLevel = e.detail as number;
+        this.drawLevel();
+    }) as EventListener);
+
+    // Listen for Snapshot Requests (map exports). Always answers, with null when there is no map
+    window.addEventListener('PHASER_REQUEST_SNAPSHOT', ((e: CustomEvent) => {
+        if (!this.sys || !this.sys.isActive()) return;
+
+        this.snapshotLevel(e.detail as SnapshotOptions)
+            .catch(err => {
+                console.error('[MainScene] Snapshot failed:', err);
+                return null;
+            })
+            .then(dataUrl => window.dispatchEvent(new CustomEvent('PHASER_SNAPSHOT', { detail: dataUrl })));
+    }) as EventListener);
+
+    // Listen for Token Events
+    window.addEventListener('PHASER_SET_TOKENS', ((e: CustomEvent) => {
+        if (!this.sys || !this.sys.isActive()) return;
+
+        // Copy: positions are filled in here and reported back, never mutate React state
+        this.tokens = (e.detail as Token[]).map(token => ({ ...token }));
+        this.drawTokens();
+    }) as EventListener);
+
+    window.addEventListener('PHASER_SET_REVEAL', ((e: CustomEvent) => {
+        if (!this.sys || !this.sys.isActive()) return;
+
+        this.revealAll = e.detail as boolean;
+        this.updateFog();
+    }) as EventListener);
+
+    window.addEventListener('PHASER_FOCUS_TOKEN', ((e: CustomEvent) => {
+        if (!this.sys || !this.sys.isActive()) return;
+
+        this.activeTokenId = e.detail as string | null;
+        this.drawTokens();
+        this.focusToken();
+    }) as EventListener);
+
+    // Token Dragging (snaps to the grid on drop)
+    this.input.on('dragstart', () => { this.draggingToken = true; });
+    this.input.on('drag', (pointer: Phaser.Input.Pointer, obj: Phaser.GameObjects.Container) => {
+        const worldPoint = pointer.positionToCamera(this.cameras.main) as Phaser.Math.Vector2;
+        obj.setPosition(worldPoint.x - this.tokenContainer.x, worldPoint.y - this.tokenContainer.y);
+    });
+    this.input.on('dragend', (_pointer: Phaser.Input.Pointer, obj: Phaser.GameObjects.Container) => {
+        this.draggingToken = false;
+        this.lastTokenDrop = this.time.now;
+        this.dropToken(obj);
+    });
+
     // Debug Stats
     this.input.keyboard!.on('keydown-D', () => {
         this.debugVisible = !this.debugVisible;
@@ -112,6 +235,9 @@ export class MainScene extends Phaser.Scene {
     });
     this.debugText.setVisible(false);
     this.debugText.setScrollFactor(0); // Fix to screen
+
+    // Listeners are up: React can send a map now (permalinks arrive before the scene exists)
+    window.dispatchEvent(new CustomEvent('PHASER_READY'));
   }
 
   private debugVisible = false;
@@ -157,13 +283,16 @@ export class MainScene extends Phaser.Scene {
   }
 
   // Fix: Rename unused 'pointer' to '_pointer' to satisfy TS6133
-  private handleWheel(_pointer: Phaser.Input.Pointer, _over: any, _deltaX: number, deltaY: number, _z: number) {
+  private handleWheel(_pointer: Phaser.Input.Pointer, _over: Phaser.GameObjects.GameObject[], _deltaX: number, deltaY: number, _z: number) {
       const zoomSpeed = 0.001;
       const newZoom = this.cameras.main.zoom - deltaY * zoomSpeed;
       this.cameras.main.setZoom(Phaser.Math.Clamp(newZoom, 0.5, 4.0));
   }
 
   private handlePointerMove(pointer: Phaser.Input.Pointer) {
+    // Token drags move the token, not the camera
+    if (this.draggingToken) return;
+
     // 1. Two-Finger Touch Logic (Pinch & Pan)
     if (this.input.pointer1.isDown && this.input.pointer2.isDown) {
         // Pinch Zoom
@@ -220,8 +349,15 @@ export class MainScene extends Phaser.Scene {
   private handleTap(pointer: Phaser.Input.Pointer) {
     // Ignore if it was a drag or pinch
     if (pointer.getDuration() > 300 || pointer.getDistance() > 10) return;
+    if (this.draggingToken || this.time.now - this.lastTokenDrop < 50) return;
 
     const worldPoint = pointer.positionToCamera(this.cameras.main) as Phaser.Math.Vector2;
+
+    // Movement: select the marker, then tap a destination square
+    if (this.handleMoveTap(worldPoint)) return;
+
+    // Doors: tap to open/close (affects line of sight)
+    if (this.handleDoorTap(worldPoint)) return;
     
     // Fat Finger Logic (Radius Search)
     // Scale radius by zoom level so "40px on screen" is consistent regardless of zoom
@@ -232,12 +368,12 @@ export class MainScene extends Phaser.Scene {
     const localX = worldPoint.x - this.mapContainer.x;
     const localY = worldPoint.y - this.mapContainer.y;
 
-    let closestChild: any = null;
+    let closestChild: Phaser.GameObjects.Sprite | null = null;
     let closestDist = effectiveRadius;
 
-    this.mapContainer.list.forEach((child: any) => {
+    for (const child of this.mapContainer.list) {
         // Only consider Sprites (ignore Debug Rects/Text)
-        if (child.type !== 'Sprite') return;
+        if (!(child instanceof Phaser.GameObjects.Sprite)) continue;
 
         // Simple distance check
         const dist = Phaser.Math.Distance.Between(child.x, child.y, localX, localY);
@@ -245,16 +381,24 @@ export class MainScene extends Phaser.Scene {
             closestDist = dist;
             closestChild = child;
         }
-    });
+    }
 
     if (closestChild && closestChild.texture) {
         // Debug info on interaction
         console.log(`[Interaction] Tapped: ${closestChild.texture.key} | Frame: ${closestChild.frame.name}`);
         
         // Visual Feedback (Juice)
+        // Relative to the resting scale (multi-tile furniture is already scaled up), recorded on the first tap.
+        // A tap during the bounce restarts it from rest instead of growing the sprite
+        if (closestChild.getData('baseScale') === undefined) {
+            closestChild.setData('baseScale', { x: closestChild.scaleX, y: closestChild.scaleY });
+        }
+        const base = closestChild.getData('baseScale') as { x: number, y: number };
+        this.tweens.killTweensOf(closestChild);
+        closestChild.setScale(base.x, base.y);
         this.tweens.add({
             targets: closestChild,
-            scaleX: 1.2, scaleY: 1.2,
+            scaleX: base.x * 1.2, scaleY: base.y * 1.2,
             duration: 100,
             yoyo: true
         });
@@ -262,9 +406,45 @@ export class MainScene extends Phaser.Scene {
   }
 
   private renderMap(mapData: MapData) {
+      this.currentMap = mapData;
+      this.marker = null;
+      this.currentLevel = mapData.levels && !mapData.levels.includes(0) ? mapData.levels[0] : 0;
+
+      // Center the map
+      const mapPixelWidth = mapData.width * TILE_SIZE;
+      const mapPixelHeight = mapData.height * TILE_SIZE;
+      
+      const offsetX = (this.scale.width - mapPixelWidth) / 2;
+      const offsetY = (this.scale.height - mapPixelHeight) / 2;
+
+      this.mapContainer.setPosition(offsetX, offsetY);
+      this.floorBlitter.setPosition(offsetX, offsetY);
+      this.tokenContainer.setPosition(offsetX, offsetY);
+      this.lightGraphics.setPosition(offsetX, offsetY);
+      this.fogGraphics.setPosition(offsetX, offsetY);
+
+      // New map: nothing explored, every door closed
+      this.explored.clear();
+      this.openDoors.clear();
+
+      this.drawLevel();
+  }
+
+  /**
+   * Draws the current level of the current map. Does not touch the camera or map offset,
+   * so switching levels keeps the view in place.
+   */
+  private drawLevel() {
+      if (!this.currentMap) return;
+      const mapData = getLevelView(this.currentMap, this.currentLevel);
+
       // Clear previous map
+      if (this.markerShape) this.tweens.killTweensOf(this.markerShape);
       this.mapContainer.removeAll(true);
       this.floorBlitter.clear();
+      this.doorSprites.clear();
+      this.opacity = null;
+      this.lightSources = null;
 
       // Draw Debug Grid (Dynamic based on Map Size)
       const gridGraphics = this.add.graphics();
@@ -284,20 +464,8 @@ export class MainScene extends Phaser.Scene {
       gridGraphics.strokePath();
       this.mapContainer.add(gridGraphics);
       this.mapContainer.sendToBack(gridGraphics);
-      
-      const TILE_SIZE = 32;
 
-      // Center the map
-      const mapPixelWidth = mapData.width * TILE_SIZE;
-      const mapPixelHeight = mapData.height * TILE_SIZE;
-      
-      const offsetX = (this.scale.width - mapPixelWidth) / 2;
-      const offsetY = (this.scale.height - mapPixelHeight) / 2;
-
-      this.mapContainer.setPosition(offsetX, offsetY);
-      this.floorBlitter.setPosition(offsetX, offsetY);
-
-      console.log(`[MainScene] Rendering Map with Blitter (Floor) + Sprites (Walls/Items)...`);
+      console.log(`[MainScene] Rendering Level ${this.currentLevel} with Blitter (Floor) + Sprites (Walls/Items)...`);
 
       // Render Tiles
       mapData.tiles.forEach(tile => {
@@ -316,21 +484,37 @@ export class MainScene extends Phaser.Scene {
               }
           } else {
               // Use Sprites for sortable items (Walls, Furniture)
+              // Multi-tile furniture is centred on its footprint
+              const footW = tile.width ?? 1;
+              const footH = tile.height ?? 1;
               const sprite = this.assetLoader.createSprite(
-                  tile.x * TILE_SIZE + TILE_SIZE/2, 
-                  tile.y * TILE_SIZE + TILE_SIZE/2, 
+                  (tile.x + footW / 2) * TILE_SIZE, 
+                  (tile.y + footH / 2) * TILE_SIZE, 
                   assetConfig.frame
               );
               sprite.setData('layer', tile.layer);
+              if (tile.layer === 'furniture' && tile.sprite.includes('door')) {
+                  this.doorSprites.set(`${tile.x},${tile.y}`, sprite);
+                  if (this.openDoors.has(`${this.currentLevel},${tile.x},${tile.y}`)) sprite.setAlpha(0.35);
+              }
               if (assetConfig.tint) {
                   sprite.setTint(assetConfig.tint);
               }
+
+              // Footprint is stored as placed, so undo the swap to size the unrotated sprite
+              const rotation = tile.rotation ?? 0;
+              const quarterTurn = rotation === 90 || rotation === 270;
+              if (footW !== 1 || footH !== 1) {
+                  sprite.setDisplaySize((quarterTurn ? footH : footW) * TILE_SIZE, (quarterTurn ? footW : footH) * TILE_SIZE);
+              }
+              if (rotation) sprite.setAngle(rotation);
+
               this.mapContainer.add(sprite);
           }
       });
 
       // Depth Sort (Only needed for Sprites)
-      this.mapContainer.sort('y', (a: any, b: any) => {
+      this.mapContainer.sort('y', (a: { y: number }, b: { y: number }) => {
           // Sort by Y position for 2.5D effect
           return a.y - b.y;
       });
@@ -355,6 +539,499 @@ export class MainScene extends Phaser.Scene {
           this.mapContainer.add(text);
       });
       
+      this.updateLighting();
+      this.drawMarker(mapData);
+      this.drawTokens();
+
       console.log(`[MainScene] Rendered ${mapData.tiles.length} tiles.`);
   }
+
+  // ================= MOVEMENT =================
+
+  private getCostGrid(): number[][] | null {
+      if (!this.currentMap) return null;
+      return this.currentMap.costGrids?.[this.currentLevel]
+          ?? MapAnalyzer.buildCostGrid(getLevelView(this.currentMap, this.currentLevel));
+  }
+
+  /**
+   * (Re)creates the movement marker. Spawns it in the entrance room when the level has none yet.
+   */
+  private drawMarker(mapData: MapData) {
+      const costs = this.getCostGrid();
+      if (!costs) return;
+
+      if (!this.marker || this.marker.level !== this.currentLevel) {
+          const spawn = this.findSpawn(mapData, costs);
+          this.marker = spawn ? { ...spawn, level: this.currentLevel } : null;
+      }
+
+      this.markerSelected = false;
+      this.markerMoving = false;
+      this.markerShape = null;
+      this.pathGraphics = this.add.graphics();
+      this.pathText = this.add.text(0, 0, '', { fontSize: '12px', color: '#ffff66', backgroundColor: '#000000aa' }).setVisible(false);
+      this.mapContainer.add([this.pathGraphics, this.pathText]);
+
+      if (!this.marker) return;
+      this.markerShape = this.add.circle(
+          this.marker.x * TILE_SIZE + TILE_SIZE / 2,
+          this.marker.y * TILE_SIZE + TILE_SIZE / 2,
+          TILE_SIZE * 0.35, 0x3399ff
+      ).setStrokeStyle(2, 0xffffff);
+      this.mapContainer.add(this.markerShape);
+  }
+
+  /**
+   * Walkable cell closest to the centre of the entrance room (or of the map), skipping `taken` cells.
+   */
+  private findSpawn(mapData: MapData, costs: number[][], taken: Set<string> = new Set()): { x: number, y: number } | null {
+      const room = MapAnalyzer.findEntranceRoom(mapData);
+      const cx = room ? room.x + room.width / 2 : mapData.width / 2;
+      const cy = room ? room.y + room.height / 2 : mapData.height / 2;
+
+      let best: { x: number, y: number } | null = null;
+      let bestDist = Infinity;
+      for (let y = 0; y < costs.length; y++) {
+          for (let x = 0; x < costs[y].length; x++) {
+              if (costs[y][x] !== CELL_OPEN || taken.has(`${x},${y}`)) continue;
+              const dist = (x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2;
+              if (dist < bestDist) {
+                  bestDist = dist;
+                  best = { x, y };
+              }
+          }
+      }
+      return best;
+  }
+
+  /**
+   * Returns true if the tap was consumed by the movement marker.
+   */
+  private handleMoveTap(worldPoint: Phaser.Math.Vector2): boolean {
+      if (!this.marker || !this.markerShape || this.markerMoving) return false;
+
+      const tx = Math.floor((worldPoint.x - this.mapContainer.x) / TILE_SIZE);
+      const ty = Math.floor((worldPoint.y - this.mapContainer.y) / TILE_SIZE);
+
+      // Tap on the marker toggles selection
+      if (tx === this.marker.x && ty === this.marker.y) {
+          this.markerSelected = !this.markerSelected;
+          this.markerShape.setStrokeStyle(2, this.markerSelected ? 0xffff00 : 0xffffff);
+          if (!this.markerSelected) this.clearPath();
+          return true;
+      }
+
+      if (!this.markerSelected) return false;
+
+      const costs = this.getCostGrid();
+      if (!costs || ty < 0 || tx < 0 || ty >= costs.length || tx >= costs[0].length) return false;
+
+      this.findPath(costs, this.marker, { x: tx, y: ty }, path => {
+          if (!path || path.length < 2) {
+              this.showPathText(tx, ty, 'No path');
+              return;
+          }
+          this.showPath(path, costs);
+          this.moveMarker(path);
+      });
+      return true;
+  }
+
+  /**
+   * A* over the cost grid. 8-way movement without cutting wall corners (5e: diagonals cost one square).
+   */
+  private findPath(costs: number[][], from: { x: number, y: number }, to: { x: number, y: number }, done: (path: { x: number, y: number }[] | null) => void) {
+      const easystar = new EasyStar.js();
+      easystar.setGrid(costs);
+      easystar.setAcceptableTiles([CELL_OPEN, CELL_DIFFICULT]);
+      easystar.setTileCost(CELL_DIFFICULT, 2);
+      easystar.enableDiagonals();
+      easystar.disableCornerCutting();
+      easystar.enableSync();
+      easystar.findPath(from.x, from.y, to.x, to.y, done);
+      easystar.calculate();
+  }
+
+  private showPath(path: { x: number, y: number }[], costs: number[][]) {
+      if (!this.pathGraphics) return;
+
+      // Difficult terrain costs double for every square entered
+      const squares = path.slice(1).reduce((sum, p) => sum + (costs[p.y][p.x] === CELL_DIFFICULT ? 2 : 1), 0);
+
+      this.pathGraphics.clear();
+      this.pathGraphics.lineStyle(3, 0xffff66, 0.9);
+      this.pathGraphics.beginPath();
+      path.forEach((p, i) => {
+          const px = p.x * TILE_SIZE + TILE_SIZE / 2;
+          const py = p.y * TILE_SIZE + TILE_SIZE / 2;
+          if (i === 0) this.pathGraphics!.moveTo(px, py);
+          else this.pathGraphics!.lineTo(px, py);
+      });
+      this.pathGraphics.strokePath();
+
+      const end = path[path.length - 1];
+      this.showPathText(end.x, end.y, `${squares} sq (${squares * FEET_PER_SQUARE} ft)`);
+  }
+
+  private showPathText(x: number, y: number, text: string) {
+      if (!this.pathText) return;
+      this.pathText.setText(text).setPosition(x * TILE_SIZE + TILE_SIZE, y * TILE_SIZE - 8).setVisible(true);
+      this.mapContainer.bringToTop(this.pathText);
+  }
+
+  private clearPath() {
+      this.pathGraphics?.clear();
+      this.pathText?.setVisible(false);
+  }
+
+  private moveMarker(path: { x: number, y: number }[]) {
+      if (!this.markerShape || !this.marker) return;
+
+      const level = this.currentLevel;
+      this.markerMoving = true;
+      this.tweens.chain({
+          targets: this.markerShape,
+          tweens: path.slice(1).map(p => ({
+              x: p.x * TILE_SIZE + TILE_SIZE / 2,
+              y: p.y * TILE_SIZE + TILE_SIZE / 2,
+              duration: 120,
+              onComplete: () => this.updateFog() // Reveal as the marker walks
+          })),
+          onComplete: () => {
+              const end = path[path.length - 1];
+              this.marker = { x: end.x, y: end.y, level };
+              this.markerMoving = false;
+          }
+      });
+  }
+
+  // ================= TOKENS =================
+
+  /**
+   * Redraws the tokens of the current level. Tokens without a position are dropped
+   * next to the entrance first and reported back through PHASER_TOKEN_MOVED.
+   */
+  private drawTokens() {
+      this.tokenContainer.removeAll(true);
+      if (!this.currentMap) return;
+
+      this.placeNewTokens();
+
+      this.tokens
+          .filter(token => token.level === this.currentLevel && token.x >= 0)
+          .forEach(token => this.tokenContainer.add(this.createTokenObject(token)));
+
+      this.updateFog();
+  }
+
+  private placeNewTokens() {
+      const costs = this.getCostGrid();
+      if (!costs || !this.currentMap) return;
+
+      const levelView = getLevelView(this.currentMap, this.currentLevel);
+      const taken = new Set(this.tokens.filter(t => t.level === this.currentLevel && t.x >= 0).map(t => `${t.x},${t.y}`));
+
+      this.tokens.forEach(token => {
+          if (token.level !== this.currentLevel || token.x >= 0) return;
+          const spot = this.findSpawn(levelView, costs, taken);
+          if (!spot) return;
+
+          taken.add(`${spot.x},${spot.y}`);
+          token.x = spot.x;
+          token.y = spot.y;
+          this.emitTokenMove({ id: token.id, x: spot.x, y: spot.y });
+      });
+  }
+
+  private createTokenObject(token: Token): Phaser.GameObjects.Container {
+      const isActive = token.id === this.activeTokenId;
+      const color = parseInt(token.color.replace('#', ''), 16);
+
+      const body = this.add.circle(0, 0, TILE_SIZE * 0.4, color)
+          .setStrokeStyle(isActive ? 4 : 2, isActive ? 0xffff00 : 0x000000);
+
+      // HP bar above the token
+      const ratio = token.maxHp > 0 ? Phaser.Math.Clamp(token.hp / token.maxHp, 0, 1) : 0;
+      const barBack = this.add.rectangle(0, -TILE_SIZE / 2 - 2, TILE_SIZE - 4, 4, 0x330000);
+      const bar = this.add.rectangle(-(TILE_SIZE - 4) / 2, -TILE_SIZE / 2 - 2, (TILE_SIZE - 4) * ratio, 4, ratio > 0.5 ? 0x66bb6a : ratio > 0.25 ? 0xffca28 : 0xef5350)
+          .setOrigin(0, 0.5);
+
+      const label = this.add.text(0, TILE_SIZE / 2, token.name, {
+          fontSize: '10px', color: '#ffffff', backgroundColor: '#000000aa'
+      }).setOrigin(0.5, 0);
+
+      const children: Phaser.GameObjects.GameObject[] = [body, barBack, bar, label];
+      if (token.conditions.length > 0) {
+          children.push(this.add.text(0, TILE_SIZE / 2 + 12, token.conditions.join(', '), {
+              fontSize: '9px', color: '#ffb74d', backgroundColor: '#000000aa'
+          }).setOrigin(0.5, 0));
+      }
+      if (token.hp <= 0) body.setAlpha(0.4);
+
+      const container = this.add.container(
+          token.x * TILE_SIZE + TILE_SIZE / 2,
+          token.y * TILE_SIZE + TILE_SIZE / 2,
+          children
+      );
+      container.setData('tokenId', token.id);
+      container.setSize(TILE_SIZE, TILE_SIZE);
+      container.setInteractive({ draggable: true, useHandCursor: true });
+      return container;
+  }
+
+  /**
+   * Snaps a dragged token to the cell under it (clamped to the map) and reports the move.
+   */
+  private dropToken(obj: Phaser.GameObjects.Container) {
+      const token = this.tokens.find(t => t.id === obj.getData('tokenId'));
+      if (!token || !this.currentMap) return;
+
+      token.x = Phaser.Math.Clamp(Math.floor(obj.x / TILE_SIZE), 0, this.currentMap.width - 1);
+      token.y = Phaser.Math.Clamp(Math.floor(obj.y / TILE_SIZE), 0, this.currentMap.height - 1);
+      obj.setPosition(token.x * TILE_SIZE + TILE_SIZE / 2, token.y * TILE_SIZE + TILE_SIZE / 2);
+      this.emitTokenMove({ id: token.id, x: token.x, y: token.y });
+      this.updateFog();
+  }
+
+  private emitTokenMove(move: TokenMove) {
+      window.dispatchEvent(new CustomEvent('PHASER_TOKEN_MOVED', { detail: move }));
+  }
+
+  /**
+   * Pans the camera to the active token. Switches level if it stands on another one.
+   */
+  private focusToken() {
+      const token = this.tokens.find(t => t.id === this.activeTokenId);
+      if (!token || token.x < 0) return;
+
+      if (token.level !== this.currentLevel && this.currentMap?.levels?.includes(token.level)) {
+          this.currentLevel = token.level;
+          this.drawLevel();
+          window.dispatchEvent(new CustomEvent('PHASER_LEVEL_CHANGED', { detail: token.level }));
+      }
+
+      this.cameras.main.pan(
+          this.tokenContainer.x + token.x * TILE_SIZE + TILE_SIZE / 2,
+          this.tokenContainer.y + token.y * TILE_SIZE + TILE_SIZE / 2,
+          300, 'Sine.easeInOut'
+      );
+  }
+
+  // ================= FOG OF WAR =================
+
+  /**
+   * Recomputes what the viewers (movement marker + player tokens) see and redraws the fog:
+   * black = unexplored, dimmed = explored but not visible, clear = visible.
+   * Monster tokens are hidden outside the visible area.
+   */
+  private updateFog() {
+      this.fogGraphics.clear();
+      if (!this.currentMap) return;
+
+      const mapData = getLevelView(this.currentMap, this.currentLevel);
+      const { width, height } = mapData;
+
+      if (this.revealAll) {
+          this.setMonsterVisibility(() => true);
+          return;
+      }
+
+      const opacity = this.getOpacity(mapData);
+
+      // Viewers: the marker where it is drawn right now (it may be mid-walk) and player tokens
+      const viewers: { x: number, y: number, radius: number }[] = [];
+      if (this.markerShape && this.marker?.level === this.currentLevel) {
+          viewers.push({ x: Math.floor(this.markerShape.x / TILE_SIZE), y: Math.floor(this.markerShape.y / TILE_SIZE), radius: DEFAULT_VISION });
+      }
+      this.tokens
+          .filter(t => t.kind === 'player' && t.level === this.currentLevel && t.x >= 0)
+          .forEach(t => viewers.push({ x: t.x, y: t.y, radius: t.vision ?? DEFAULT_VISION }));
+
+      this.visible = Array(height).fill(0).map(() => Array(width).fill(false));
+      viewers.forEach(v => FieldOfView.compute(opacity, v.x, v.y, v.radius, this.visible));
+
+      if (!this.explored.has(this.currentLevel)) {
+          this.explored.set(this.currentLevel, Array(height).fill(0).map(() => Array(width).fill(false)));
+      }
+      const explored = this.explored.get(this.currentLevel)!;
+
+      for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+              if (this.visible[y][x]) {
+                  explored[y][x] = true;
+                  continue;
+              }
+              this.fogGraphics.fillStyle(0x000000, explored[y][x] ? 0.6 : 1);
+              this.fogGraphics.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+          }
+      }
+
+      this.setMonsterVisibility((x, y) => this.visible[y]?.[x] ?? false);
+  }
+
+  /**
+   * Walls + closed doors of the current level. Shared by sight and light.
+   */
+  private getOpacity(mapData: MapData): boolean[][] {
+      if (!this.opacity) {
+          const openDoors = new Set([...this.openDoors]
+              .filter(key => key.startsWith(`${this.currentLevel},`))
+              .map(key => key.slice(key.indexOf(',') + 1)));
+          this.opacity = FieldOfView.buildOpacityGrid(mapData, openDoors);
+      }
+      return this.opacity;
+  }
+
+  private setMonsterVisibility(isVisible: (x: number, y: number) => boolean) {
+      this.tokenContainer.list.forEach(obj => {
+          const container = obj as Phaser.GameObjects.Container;
+          const token = this.tokens.find(t => t.id === container.getData('tokenId'));
+          if (token) container.setVisible(token.kind !== 'monster' || isVisible(token.x, token.y));
+      });
+  }
+
+  /**
+   * Returns true if the tap toggled a door.
+   */
+  private handleDoorTap(worldPoint: Phaser.Math.Vector2): boolean {
+      const tx = Math.floor((worldPoint.x - this.mapContainer.x) / TILE_SIZE);
+      const ty = Math.floor((worldPoint.y - this.mapContainer.y) / TILE_SIZE);
+      const sprite = this.doorSprites.get(`${tx},${ty}`);
+      if (!sprite) return false;
+
+      const key = `${this.currentLevel},${tx},${ty}`;
+      if (this.openDoors.has(key)) this.openDoors.delete(key);
+      else this.openDoors.add(key);
+
+      sprite.setAlpha(this.openDoors.has(key) ? 0.35 : 1);
+      this.opacity = null;
+      this.lightSources = null;
+      this.updateLighting();
+      this.updateFog();
+      return true;
+  }
+
+  // ================= LIGHTING =================
+
+  /**
+   * Redraws the light map (multiplied over the map): ambient everywhere, pools of light
+   * around fires, torches and lamps. Skipped entirely when the tone is fully lit.
+   */
+  private updateLighting() {
+      this.lightGraphics.clear();
+      if (!this.currentMap || this.ambient.level >= 1) return;
+
+      const { width, height } = this.currentMap;
+      if (!this.lightSources) {
+          const mapData = getLevelView(this.currentMap, this.currentLevel);
+          this.lightSources = Lighting.collect(mapData, this.getOpacity(mapData));
+      }
+
+      const factors = this.lightSources.map(l => 1 - l.flicker * Math.random());
+      const shade = Lighting.shade(this.lightSources, width, height, this.ambient, factors);
+
+      // Merge equal cells into row runs: every pixel must be multiplied exactly once
+      for (let y = 0; y < height; y++) {
+          let start = 0;
+          for (let x = 1; x <= width; x++) {
+              if (x < width && shade[y][x] === shade[y][start]) continue;
+              this.lightGraphics.fillStyle(shade[y][start], 1);
+              this.lightGraphics.fillRect(start * TILE_SIZE, y * TILE_SIZE, (x - start) * TILE_SIZE, TILE_SIZE);
+              start = x;
+          }
+      }
+  }
+
+  // ================= SNAPSHOT =================
+
+  /**
+   * Offscreen render of the current level (or a region of it) as a PNG data URL.
+   * Debug overlays, tokens, fog and the marker are left out. Rendered in chunks of
+   * SNAPSHOT_CHUNK px and stitched on a canvas, so the size isn't capped by the GPU.
+   */
+  private async snapshotLevel(options: SnapshotOptions): Promise<string | null> {
+      if (!this.currentMap) return null;
+
+      const pps = options.pixelsPerSquare;
+      const scale = pps / TILE_SIZE;
+      const region = options.region ?? { x: 0, y: 0, width: this.currentMap.width, height: this.currentMap.height };
+
+      // 1. Export-only overlays (never added to the scene)
+      const withLighting = options.tone && this.ambient.level < 1;
+      const extras: (Phaser.GameObjects.Graphics | Phaser.GameObjects.Text)[] = [];
+      if (options.grid) {
+          const grid = this.make.graphics({}, false);
+          grid.lineStyle(1 / scale, 0x000000, 0.35); // 1 output pixel
+          for (let x = region.x; x <= region.x + region.width; x++) grid.lineBetween(x * TILE_SIZE, region.y * TILE_SIZE, x * TILE_SIZE, (region.y + region.height) * TILE_SIZE);
+          for (let y = region.y; y <= region.y + region.height; y++) grid.lineBetween(region.x * TILE_SIZE, y * TILE_SIZE, (region.x + region.width) * TILE_SIZE, y * TILE_SIZE);
+          extras.push(grid);
+      }
+      if (options.labels) {
+          getLevelView(this.currentMap, this.currentLevel).rooms.forEach(room => {
+              const label = this.make.text({
+                  x: (room.x + room.width / 2) * TILE_SIZE,
+                  y: (room.y + room.height / 2) * TILE_SIZE,
+                  text: room.name || room.type,
+                  style: { fontSize: '12px', fontFamily: 'serif', color: '#000000', backgroundColor: '#ffffffcc', padding: { x: 3, y: 1 } }
+              }, false);
+              label.setOrigin(0.5).setResolution(Math.max(1, scale));
+              extras.push(label);
+          });
+      }
+
+      // 2. Draw every chunk now (synchronously), so the debug overlays are hidden for one frame at most
+      const hidden = this.mapContainer.list.filter(isVisibleObject).filter(child => child.type !== 'Sprite' && child.visible);
+      hidden.forEach(child => child.setVisible(false));
+
+      const chunk = Math.max(1, Math.floor(SNAPSHOT_CHUNK / pps)); // Squares per chunk side
+      const pending: { x: number, y: number, rt: Phaser.GameObjects.RenderTexture }[] = [];
+      for (let cy = region.y; cy < region.y + region.height; cy += chunk) {
+          for (let cx = region.x; cx < region.x + region.width; cx += chunk) {
+              const w = Math.min(chunk, region.x + region.width - cx);
+              const h = Math.min(chunk, region.y + region.height - cy);
+              const rt = this.make.renderTexture({ width: w * pps, height: h * pps }, false);
+              rt.camera.setZoom(scale).centerOn((cx + w / 2) * TILE_SIZE, (cy + h / 2) * TILE_SIZE);
+              rt.draw(this.floorBlitter, 0, 0);
+              rt.draw(this.mapContainer, 0, 0);
+              if (withLighting) rt.draw(this.lightGraphics, 0, 0);
+              extras.forEach(extra => rt.draw(extra, extra.x, extra.y));
+              pending.push({ x: cx - region.x, y: cy - region.y, rt });
+          }
+      }
+
+      hidden.forEach(child => child.setVisible(true));
+      extras.forEach(extra => extra.destroy());
+
+      // 3. Stitch
+      const canvas = document.createElement('canvas');
+      canvas.width = region.width * pps;
+      canvas.height = region.height * pps;
+      const ctx = canvas.getContext('2d')!;
+
+      for (const part of pending) {
+          const image = await new Promise<HTMLImageElement | null>(resolve => {
+              part.rt.snapshot(result => resolve(result instanceof HTMLImageElement ? result : null), 'image/png');
+          });
+          part.rt.destroy();
+          if (!image) return null;
+          ctx.drawImage(image, part.x * pps, part.y * pps);
+      }
+
+      // 4. Tone (post pipelines only run on the camera, so the export applies the CPU version)
+      const filter = TONE_FILTERS[this.tone];
+      if (options.tone && filter) {
+          const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+          const data = pixels.data;
+          for (let i = 0; i < data.length; i += 4) {
+              const [r, g, b] = filter(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255);
+              data[i] = Math.min(255, r * 255);
+              data[i + 1] = Math.min(255, g * 255);
+              data[i + 2] = Math.min(255, b * 255);
+          }
+          ctx.putImageData(pixels, 0, 0);
+      }
+
+      return canvas.toDataURL('image/png');
+  }
 }
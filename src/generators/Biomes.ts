@@ -0,0 +1,55 @@
+// Biome table used by OrganicGenerator.
+// Each cave floor tile samples elevation + moisture noise (both 0..1) and takes the
+// FIRST biome whose ranges contain both values, so order matters (most specific first).
+// DEFAULT_BIOMES is used unless a table is passed: GeneratorFactory.getGenerator('organic', { biomes }).
+
+export interface BiomeDecoration {
+    sprite: string; // Semantic key resolved by AssetMapper
+    density: number; // Chance per floor tile (0..1)
+}
+
+export interface Biome {
+    id: string;
+    sprite: string; // Floor sprite key
+    elevation: [number, number]; // [min, max)
+    moisture: [number, number]; // [min, max)
+    decorations: BiomeDecoration[];
+}
+
+export const DEFAULT_BIOMES: Biome[] = [
+    {
+        id: 'water',
+        sprite: 'water',
+        elevation: [0, 0.3],
+        moisture: [0, 1.01],
+        decorations: []
+    },
+    {
+        id: 'sand',
+        sprite: 'sand',
+        elevation: [0.3, 0.37],
+        moisture: [0, 1.01],
+        decorations: [{ sprite: 'boulder', density: 0.01 }]
+    },
+    {
+        id: 'rock',
+        sprite: 'floor_rock',
+        elevation: [0.68, 1.01],
+        moisture: [0, 1.01],
+        decorations: [{ sprite: 'boulder', density: 0.06 }, { sprite: 'mushroom', density: 0.01 }]
+    },
+    {
+        id: 'mud',
+        sprite: 'floor_mud',
+        elevation: [0.37, 0.68],
+        moisture: [0.6, 1.01],
+        decorations: [{ sprite: 'mushroom', density: 0.08 }, { sprite: 'reeds', density: 0.04 }]
+    },
+    {
+        id: 'grass',
+        sprite: 'grass',
+        elevation: [0.37, 0.68],
+        moisture: [0, 0.6],
+        decorations: [{ sprite: 'tree', density: 0.03 }, { sprite: 'bush', density: 0.03 }, { sprite: 'mushroom', density: 0.01 }]
+    }
+];
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ConstraintSolver } from './ConstraintSolver';
+import { FurnitureCatalog, FurnitureCatalogData } from './FurnitureCatalog';
+import { SeededRandom } from './SeededRandom';
+import catalogData from '../data/furniture.json';
+import { MapData, RoomData } from '../types/MapData';
+
+// A walled w x h room (floor = 0) at (1, 1)
+const setup = (w: number, h: number) => {
+    const grid = Array.from({ length: h + 2 }, (_, y) => Array.from({ length: w + 2 }, (_, x) => (x > 0 && y > 0 && x <= w && y <= h ? 0 : 1)));
+    const room: RoomData = { id: 'r', name: 'Room', type: 'room', x: 1, y: 1, width: w, height: h, doors: [] };
+    const mapData = { tiles: [] } as unknown as MapData;
+    return { grid, room, mapData, place: (items: string[]) => ConstraintSolver.placeItems(room, items, mapData, grid, 0, new SeededRandom(1)) };
+};
+
+const furniture = (mapData: MapData) => mapData.tiles.filter(t => t.layer === 'furniture');
+
+describe('ConstraintSolver.placeItems', () => {
+    afterEach(() => FurnitureCatalog.load(catalogData as FurnitureCatalogData));
+
+    it('places items inside the room without overlaps', () => {
+        const { mapData, place } = setup(8, 8);
+        expect(place(['bed', 'table', 'chair', 'chest'])).toEqual([]);
+
+        // Tiles carry the rotated footprint
+        const cells = furniture(mapData).flatMap(t =>
+            Array.from({ length: t.width! * t.height! }, (_, i) => `${t.x + (i % t.width!)},${t.y + Math.floor(i / t.width!)}`));
+        expect(new Set(cells).size).toBe(cells.length);
+        cells.forEach(cell => {
+            const [x, y] = cell.split(',').map(Number);
+            expect(x >= 1 && x <= 8 && y >= 1 && y <= 8).toBe(true);
+        });
+    });
+
+    it('is deterministic for a seed', () => {
+        const a = setup(8, 8);
+        const b = setup(8, 8);
+        a.place(['bed', 'dining set', 'wardrobe']);
+        b.place(['bed', 'dining set', 'wardrobe']);
+        expect(a.mapData.tiles).toEqual(b.mapData.tiles);
+    });
+
+    it('reports unknown items and items over their per-room limit', () => {
+        const { place } = setup(8, 8);
+        expect(place(['flux capacitor', 'tv', 'sofa', 'tv'])).toEqual([
+            { roomId: 'r', item: 'flux capacitor', reason: 'unknown_item' },
+            { roomId: 'r', item: 'tv', reason: 'over_limit' }
+        ]);
+    });
+
+    it('reports a group that does not fit once, not once per member', () => {
+        const { mapData, place } = setup(2, 2);
+        const unplaced = place(['dining set']);
+        expect(unplaced).toHaveLength(1);
+        expect(unplaced[0].item).toBe('dining set');
+        expect(furniture(mapData)).toHaveLength(0);
+    });
+
+    it('places a fitting group with its required members', () => {
+        const { mapData, place } = setup(8, 8);
+        expect(place(['dining set'])).toEqual([]);
+        const sprites = furniture(mapData).map(t => t.sprite);
+        expect(sprites.filter(s => s === 'table')).toHaveLength(1);
+        expect(sprites.filter(s => s === 'chair').length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('brings an item\'s minimum count along with the first request', () => {
+        const data = structuredClone(catalogData) as FurnitureCatalogData;
+        data.items.find(item => item.id === 'chest')!.minPerRoom = 3;
+        FurnitureCatalog.load(data);
+
+        const { mapData, place } = setup(8, 8);
+        expect(place(['chest', 'chest'])).toEqual([]);
+        expect(furniture(mapData).filter(t => t.sprite === 'chest')).toHaveLength(3);
+
+        const tiny = setup(1, 2);
+        expect(tiny.place(['chest'])).toEqual([{ roomId: 'r', item: 'chest', reason: 'no_space' }]);
+        expect(furniture(tiny.mapData)).toHaveLength(0);
+    });
+});
@@ -1,12 +1,12 @@
 import { MapData, RoomData, ZoneType } from '../types/MapData';
+import { UnplacedFurniture } from '../types/GenerationReport';
+import { SeededRandom } from './SeededRandom';
+import { FurnitureCatalog, FurnitureDefinition } from './FurnitureCatalog';
 
-interface FurnitureRule {
-    width: number;
-    height: number;
-    preferredZones: ZoneType[];
-    blocksDoor?: boolean; // If true, cannot be placed on a door vector
-    faces?: string; // The type of furniture this item must face (e.g., 'TV' faces 'sofa')
-}
+// Backtracking bounds (per unit that doesn't fit)
+const BACKTRACK_WINDOW = 3; // Previously placed units lifted and re-placed
+const MAX_BRANCH = 6; // Spots tried per item
+const MAX_STEPS = 2000; // Placements tried in total
 
 interface PlacedItem {
     type: string;
@@ -15,206 +15,382 @@ interface PlacedItem {
     width: number;
     height: number;
     rotation: number; // 0, 90, 180, 270 (degrees)
+    clearance: { x: number, y: number }[]; // Cells kept free in front of the item
 }
 
-export class ConstraintSolver {
-    private static rules: Record<string, FurnitureRule> = {
-        'bed': { width: 1, height: 2, preferredZones: ['wall'], blocksDoor: true },
-        'chest': { width: 1, height: 1, preferredZones: ['wall', 'center'] },
-        'table': { width: 2, height: 2, preferredZones: ['center'] },
-        'chair': { width: 1, height: 1, preferredZones: ['center'] },
-        'rug': { width: 2, height: 2, preferredZones: ['center'] },
-        'sofa': { width: 2, height: 1, preferredZones: ['center', 'wall'] },
-        'tv': { width: 1, height: 1, preferredZones: ['wall'], faces: 'sofa' },
-        'throne': { width: 2, height: 2, preferredZones: ['wall'], blocksDoor: true },
-        'bookshelf': { width: 2, height: 1, preferredZones: ['wall'] },
-        'gold': { width: 1, height: 1, preferredZones: ['center'] },
-        'fire': { width: 1, height: 1, preferredZones: ['center'] }
-    };
+// Placed all-or-nothing: one item, or the required members of a group
+interface PlacementUnit {
+    label: string; // Name as requested (item or group)
+    rules: FurnitureDefinition[];
+    setOf?: PlacementUnit; // Optional extra of a group: placed only if the group's required unit was
+}
+
+interface SolverContext {
+    grid: number[][];
+    floorValue: number;
+    doors: { x: number, y: number }[];
+    roomTiles: Set<string> | null; // Irregular rooms only
+    zones: { x: number, y: number, type: ZoneType }[];
+    placed: PlacedItem[];
+    steps: number;
+}
 
+export class ConstraintSolver {
     /**
      * Calculates zones (Wall, Center) for a room and stores them in room.zones.
      */
     static calculateZones(room: RoomData, grid: number[][], floorValue: number): void {
         room.zones = [];
+
+        // Irregular rooms list their tiles, rectangular rooms use their bounds
+        const cells = room.tiles || [];
+        if (!room.tiles) {
+            for (let y = room.y; y < room.y + room.height; y++) {
+                for (let x = room.x; x < room.x + room.width; x++) cells.push({ x, y });
+            }
+        }
         
-        for (let y = room.y; y < room.y + room.height; y++) {
-            for (let x = room.x; x < room.x + room.width; x++) {
-                // Ensure we are inside grid bounds
-                if (y < 0 || y >= grid.length || x < 0 || x >= grid[0].length) continue;
-                
-                // Only consider floor tiles of this room
-                if (grid[y][x] !== floorValue) continue; // Should match floorValue (0 or 1)
-
-                let isWall = false;
-                
-                // Check 4 neighbors to see if any is NOT floorValue (meaning it's a wall or outside)
-                // Actually, for a rectangular room, the boundary is simply x==room.x or x==room.x+w-1...
-                // But rooms might be irregular (organic).
-                // So checking neighbors is safer.
-                const neighbors = [
-                    { dx: 0, dy: -1 }, { dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }
-                ];
-
-                for (const n of neighbors) {
-                    const nx = x + n.dx;
-                    const ny = y + n.dy;
-                    if (nx < 0 || ny < 0 || nx >= grid[0].length || ny >= grid.length || grid[ny][nx] !== floorValue) {
-                        isWall = true;
-                        break;
-                    }
-                }
+        for (const { x, y } of cells) {
+            // Ensure we are inside grid bounds
+            if (y < 0 || y >= grid.length || x < 0 || x >= grid[0].length) continue;
+            
+            // Only consider floor tiles of this room
+            if (grid[y][x] !== floorValue) continue; // Should match floorValue (0 or 1)
 
-                room.zones.push({
-                    x, y,
-                    type: isWall ? 'wall' : 'center'
-                });
+            let isWall = false;
+            
+            // Check 4 neighbors to see if any is NOT floorValue (meaning it's a wall or outside)
+            // Actually, for a rectangular room, the boundary is simply x==room.x or x==room.x+w-1...
+            // But rooms might be irregular (organic).
+            // So checking neighbors is safer.
+            const neighbors = [
+                { dx: 0, dy: -1 }, { dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }
+            ];
+
+            for (const n of neighbors) {
+                const nx = x + n.dx;
+                const ny = y + n.dy;
+                if (nx < 0 || ny < 0 || nx >= grid[0].length || ny >= grid.length || grid[ny][nx] !== floorValue) {
+                    isWall = true;
+                    break;
+                }
             }
+
+            room.zones.push({
+                x, y,
+                type: isWall ? 'wall' : 'center'
+            });
         }
     }
 
-    static placeItems(room: RoomData, items: string[], mapData: MapData, grid: number[][], floorValue: number): void {
+    /**
+     * Places furniture into a room. Returns the items that could not be placed.
+     *
+     * Items (and group sets) are placed one unit at a time. When a unit doesn't fit, the last
+     * few placed units are lifted and re-placed together with it (bounded backtracking),
+     * before giving up on it.
+     */
+    static placeItems(room: RoomData, items: string[], mapData: MapData, grid: number[][], floorValue: number, rng: SeededRandom): UnplacedFurniture[] {
         if (!room.zones || room.zones.length === 0) {
             this.calculateZones(room, grid, floorValue);
         }
 
-        // Use Explicit Door Metadata if available, otherwise fallback (which shouldn't happen after refactor)
-        const doorVectors = room.doors || [];
-        const placedItems: PlacedItem[] = [];
+        const unplaced: UnplacedFurniture[] = [];
+        const ctx: SolverContext = {
+            grid,
+            floorValue,
+            // Use Explicit Door Metadata if available
+            doors: room.doors || [],
+            roomTiles: room.tiles ? new Set(room.tiles.map(t => `${t.x},${t.y}`)) : null,
+            // We shuffle room zones once to avoid always placing in top-left
+            zones: rng.shuffle(room.zones || []),
+            placed: [],
+            steps: 0
+        };
 
-        // 1. Sort items. 
-        // 'sofa' must be placed before 'tv' because TV depends on Sofa.
-        // Larger items generally first.
-        const sortedItems = [...items].sort((a, b) => {
-            const ruleA = this.rules[a] || { width: 1, height: 1 };
-            const ruleB = this.rules[b] || { width: 1, height: 1 };
-            
-            // Priority override
-            if (a === 'sofa' && b === 'tv') return -1;
-            if (a === 'tv' && b === 'sofa') return 1;
-
-            // Area sort (descending)
-            const areaA = ruleA.width * ruleA.height;
-            const areaB = ruleB.width * ruleB.height;
-            return areaB - areaA;
+        // 1. Resolve names and groups into placement units
+        const units = this.buildUnits(room, items, unplaced);
+
+        // 2. Place unit by unit, backtracking over the previous few when stuck
+        const placements = new Map<number, PlacedItem[]>();
+        for (let i = 0; i < units.length; i++) {
+            const set = units[i].setOf;
+            if (set && !placements.has(units.indexOf(set))) continue; // The group was already reported
+
+            ctx.steps = 0;
+            if (this.search(units, [i], 0, ctx, placements)) continue;
+
+            // Lift the tail of placed units (dependents always come after their targets)
+            const window = [...placements.keys()].sort((a, b) => a - b).slice(-BACKTRACK_WINDOW);
+            const saved = window.map(u => placements.get(u)!);
+            window.forEach(u => {
+                this.lift(placements.get(u)!, ctx);
+                placements.delete(u);
+            });
+
+            ctx.steps = 0;
+            if (window.length > 0 && this.search(units, [...window, i], 0, ctx, placements)) continue;
+
+            // Give up on this unit and put the others back where they were
+            window.forEach((u, j) => {
+                placements.set(u, saved[j]);
+                ctx.placed.push(...saved[j]);
+            });
+            unplaced.push({ roomId: room.id, item: units[i].label, reason: this.failureReason(units[i], ctx) });
+        }
+
+        // 3. Add to MapData: one tile per item anchored top-left, covering the whole footprint
+        [...placements.keys()].sort((a, b) => a - b).forEach(u => {
+            placements.get(u)!.forEach(item => mapData.tiles.push({
+                x: item.x,
+                y: item.y,
+                sprite: item.type, // Canonical id, e.g. 'bed' for 'Bunk'
+                rotation: item.rotation,
+                width: item.width,
+                height: item.height,
+                layer: 'furniture'
+            }));
         });
 
-        for (const itemType of sortedItems) {
-            const rule = this.rules[itemType];
-            if (!rule) continue;
+        return unplaced;
+    }
 
-            let placed = false;
-            
-            // Try preferred zones first, then fallback
-            const zonesToTry = rule.preferredZones && rule.preferredZones.length > 0 
-                ? rule.preferredZones 
-                : ['wall', 'center'] as ZoneType[]; // Default fallback
-            
-            // Add fallback to all zones if not strictly limited
-            if (!zonesToTry.includes('wall')) zonesToTry.push('wall');
-            if (!zonesToTry.includes('center')) zonesToTry.push('center');
-
-            // Iterate candidates
-            // We shuffle room zones to avoid always placing in top-left
-            const shuffledZones = [...(room.zones || [])].sort(() => Math.random() - 0.5);
-
-            for (const zoneType of zonesToTry) {
-                if (placed) break;
-
-                const candidates = shuffledZones.filter(z => z.type === zoneType);
-                
-                for (const candidate of candidates) {
-                    if (placed) break;
-
-                    // Try rotations: 0, 90, 180, 270
-                    const rotations = [0, 90, 180, 270];
-                    // Optimization: if item is square (1x1 or 2x2), rotation 90/270 same as 0/180? 
-                    // But 'facing' matters even for squares.
-                    
-                    for (const rot of rotations) {
-                        // Calculate dimensions based on rotation
-                        const w = (rot === 0 || rot === 180) ? rule.width : rule.height;
-                        const h = (rot === 0 || rot === 180) ? rule.height : rule.width;
-
-                        // Define footprint
-                        // We assume anchor is top-left (candidate.x, candidate.y)
-                        // Verify bounds
-                        if (!this.checkBounds(candidate.x, candidate.y, w, h, room, grid, floorValue)) continue;
-
-                        // Check Collision with existing items
-                        if (this.checkCollision(candidate.x, candidate.y, w, h, placedItems)) continue;
-
-                        // Check Door Blocking
-                        if (rule.blocksDoor && this.checkDoorBlocking(candidate.x, candidate.y, w, h, doorVectors)) continue;
-
-                        // Check Facing Rule
-                        if (rule.faces) {
-                            // Find the target
-                            const target = placedItems.find(p => p.type === rule.faces);
-                            if (target) {
-                                if (!this.checkFacing(candidate.x, candidate.y, w, h, rot, target)) continue;
-                            } else {
-                                // Target not placed yet? We can't satisfy rule.
-                                // If strict, we skip. If loose, we place anyway?
-                                // Let's skip for now, implying dependency sort failed or target missing.
-                                // Actually, if we just sorted, target *should* be there.
-                                // If not, maybe we skip placing this item or ignore rule.
-                                // Let's ignore rule if target missing (fallback).
-                            }
-                        }
-
-                        // Valid! Place it.
-                        placedItems.push({
-                            type: itemType,
-                            x: candidate.x,
-                            y: candidate.y,
-                            width: w,
-                            height: h,
-                            rotation: rot
-                        });
-
-                        // Add to MapData
-                        // We fill the tiles. 
-                        // Note: If item > 1x1, we might want to place multiple tiles or one large sprite?
-                        // Renderer expects tiles. 
-                        // We will mark the anchor tile with the sprite and rotation.
-                        // We should probably mark occupied tiles in a "furniture" layer or similar.
-                        // For now, let's just place the sprite at the anchor.
-                        // But we need to ensure we don't draw floor over it? No, layers handle that.
-                        
-                        mapData.tiles.push({
-                            x: candidate.x,
-                            y: candidate.y,
-                            sprite: itemType, // e.g., 'bed', 'sofa'
-                            rotation: rot,
-                            layer: 'furniture'
-                        });
-
-                        placed = true;
-                        break; // Stop rotation loop
+    /**
+     * Expands groups and per-item minimums, drops unknown items and anything over its per-room limit, then sorts:
+     * items with relations after their targets, then larger first (group sets win ties), optional group extras last.
+     */
+    private static buildUnits(room: RoomData, items: string[], unplaced: UnplacedFurniture[]): PlacementUnit[] {
+        const units: PlacementUnit[] = [];
+        const counts = new Map<string, number>(); // Copies queued, per id
+        const requested = new Map<string, number>(); // Single-item requests, per id
+        const withinLimit = (rule: FurnitureDefinition, label: string): boolean => {
+            const count = counts.get(rule.id) ?? 0;
+            if (rule.maxPerRoom !== undefined && count >= rule.maxPerRoom) {
+                unplaced.push({ roomId: room.id, item: label, reason: 'over_limit' });
+                return false;
+            }
+            counts.set(rule.id, count + 1);
+            return true;
+        };
+
+        for (const name of items) {
+            const group = FurnitureCatalog.resolveGroup(name);
+            if (group) {
+                const required: FurnitureDefinition[] = [];
+                const optional: FurnitureDefinition[] = [];
+                group.items.forEach(member => {
+                    const rule = FurnitureCatalog.resolve(member.id);
+                    if (!rule) return;
+                    for (let n = 0; n < member.max; n++) {
+                        if (!withinLimit(rule, name)) break;
+                        (n < member.min ? required : optional).push(rule);
+                    }
+                });
+                const set = required.length > 0 ? { label: name, rules: required.sort(this.compareRules) } : undefined;
+                if (set) units.push(set);
+                optional.forEach(rule => units.push({ label: name, rules: [rule], setOf: set }));
+                continue;
+            }
+
+            const rule = FurnitureCatalog.resolve(name);
+            if (!rule) {
+                unplaced.push({ roomId: room.id, item: name, reason: 'unknown_item' });
+                continue;
+            }
+
+            // The first request brings the item's minimum along, as one all-or-nothing unit.
+            // Later requests only add copies once the minimum is used up
+            const request = (requested.get(rule.id) ?? 0) + 1;
+            requested.set(rule.id, request);
+            const min = rule.minPerRoom ?? 1;
+            if (request === 1) {
+                const copies: FurnitureDefinition[] = [];
+                for (let n = 0; n < min && withinLimit(rule, name); n++) copies.push(rule);
+                if (copies.length > 0) units.push({ label: name, rules: copies });
+            } else if (request > min && withinLimit(rule, name)) {
+                units.push({ label: name, rules: [rule] });
+            }
+        }
+
+        units.sort((a, b) => this.compareRules(a.rules[0], b.rules[0]) || (b.rules.length > 1 ? 1 : 0) - (a.rules.length > 1 ? 1 : 0));
+        // Optional group extras last, where they still fit
+        return [...units.filter(u => !u.setOf), ...units.filter(u => u.setOf)];
+    }
+
+    private static compareRules(a: FurnitureDefinition, b: FurnitureDefinition): number {
+        const dependent = (r: FurnitureDefinition) => (r.faces || r.adjacentTo ? 1 : 0);
+        return dependent(a) - dependent(b) || b.width * b.height - a.width * a.height;
+    }
+
+    /**
+     * Depth-first placement of `order` (unit indices), trying up to MAX_BRANCH spots per item.
+     * Leaves ctx/placements untouched on failure.
+     */
+    private static search(units: PlacementUnit[], order: number[], depth: number, ctx: SolverContext, placements: Map<number, PlacedItem[]>): boolean {
+        if (depth === order.length) return true;
+        const u = order[depth];
+
+        return this.placeRules(units[u].rules, 0, [], ctx, placed => {
+            placements.set(u, placed);
+            if (this.search(units, order, depth + 1, ctx, placements)) return true;
+            placements.delete(u);
+            return false;
+        });
+    }
+
+    private static placeRules(rules: FurnitureDefinition[], k: number, placed: PlacedItem[], ctx: SolverContext, next: (placed: PlacedItem[]) => boolean): boolean {
+        if (k === rules.length) return next(placed);
+
+        for (const item of this.findCandidates(rules[k], ctx, MAX_BRANCH, true)) {
+            if (++ctx.steps > MAX_STEPS) return false;
+            ctx.placed.push(item);
+            if (this.placeRules(rules, k + 1, [...placed, item], ctx, next)) return true;
+            ctx.placed.pop();
+        }
+        return false;
+    }
+
+    /**
+     * Why a unit didn't fit, reported once per unit: placing its members greedily, the first one
+     * without a valid spot decides ('no_space' if it has no spot even ignoring relations).
+     */
+    private static failureReason(unit: PlacementUnit, ctx: SolverContext): UnplacedFurniture['reason'] {
+        const trial: PlacedItem[] = [];
+        let reason: UnplacedFurniture['reason'] = 'constraint'; // Every member fits on its own, just not all together
+        for (const rule of unit.rules) {
+            const [spot] = this.findCandidates(rule, ctx, 1, true);
+            if (!spot) {
+                reason = this.findCandidates(rule, ctx, 1, false).length > 0 ? 'constraint' : 'no_space';
+                break;
+            }
+            trial.push(spot);
+            ctx.placed.push(spot);
+        }
+        this.lift(trial, ctx);
+        return reason;
+    }
+
+    private static lift(items: PlacedItem[], ctx: SolverContext) {
+        ctx.placed = ctx.placed.filter(p => !items.includes(p));
+    }
+
+    /**
+     * Valid spots for a rule given what is already placed: preferred zones first, one rotation per cell.
+     */
+    private static findCandidates(rule: FurnitureDefinition, ctx: SolverContext, limit: number, relations: boolean): PlacedItem[] {
+        const found: PlacedItem[] = [];
+
+        // Try preferred zones first, then every other zone
+        const zonesToTry: ZoneType[] = [...rule.zones];
+        if (!zonesToTry.includes('wall')) zonesToTry.push('wall');
+        if (!zonesToTry.includes('center')) zonesToTry.push('center');
+
+        for (const zoneType of zonesToTry) {
+            for (const candidate of ctx.zones) {
+                if (candidate.type !== zoneType) continue;
+
+                // Try rotations: 0, 90, 180, 270 ('facing' matters even for squares)
+                for (const rot of [0, 90, 180, 270]) {
+                    const item = this.tryPlace(rule, candidate.x, candidate.y, rot, ctx, relations);
+                    if (item) {
+                        found.push(item);
+                        if (found.length >= limit) return found;
+                        break;
                     }
                 }
             }
         }
+        return found;
     }
 
-    private static checkBounds(x: number, y: number, w: number, h: number, _room: RoomData, grid: number[][], floorValue: number): boolean {
+    private static tryPlace(rule: FurnitureDefinition, x: number, y: number, rot: number, ctx: SolverContext, relations: boolean): PlacedItem | null {
+        // Calculate dimensions based on rotation. Anchor is top-left
+        const w = (rot === 0 || rot === 180) ? rule.width : rule.height;
+        const h = (rot === 0 || rot === 180) ? rule.height : rule.width;
+
+        if (!this.checkBounds(x, y, w, h, ctx)) return null;
+
+        // Check Collision with existing items and the space they keep clear
+        if (this.checkCollision(x, y, w, h, ctx.placed)) return null;
+        if (ctx.placed.some(p => p.clearance.some(c => c.x >= x && c.x < x + w && c.y >= y && c.y < y + h))) return null;
+
+        // Check Door Blocking
+        if (rule.blocksDoor && this.checkDoorBlocking(x, y, w, h, ctx.doors)) return null;
+
+        // Clearance in front must be free room floor
+        let clearance: { x: number, y: number }[] = [];
+        if (rule.clearance) {
+            const front = this.frontRect(x, y, w, h, rot, rule.clearance);
+            if (!this.checkBounds(front.x, front.y, front.w, front.h, ctx)) return null;
+            if (this.checkCollision(front.x, front.y, front.w, front.h, ctx.placed)) return null;
+            clearance = this.cells(front);
+        }
+
+        if (relations) {
+            // Back against a wall: nothing behind is room floor
+            if (rule.facesInward) {
+                const back = this.frontRect(x, y, w, h, (rot + 180) % 360, 1);
+                if (this.cells(back).some(c => this.isRoomFloor(c.x, c.y, ctx))) return null;
+            }
+
+            // Relations only bind while a target is actually in the room
+            if (rule.faces) {
+                const targets = ctx.placed.filter(p => p.type === rule.faces);
+                if (targets.length > 0 && !targets.some(t => this.checkFacing(x, y, w, h, rot, t))) return null;
+            }
+            if (rule.adjacentTo) {
+                const targets = ctx.placed.filter(p => p.type === rule.adjacentTo);
+                if (targets.length > 0 && !targets.some(t => this.checkAdjacent(x, y, w, h, t))) return null;
+            }
+        }
+
+        return { type: rule.id, x, y, width: w, height: h, rotation: rot, clearance };
+    }
+
+    /**
+     * Rectangle of `depth` tiles in front of a footprint. Rotation 0 faces up.
+     */
+    private static frontRect(x: number, y: number, w: number, h: number, rot: number, depth: number): { x: number, y: number, w: number, h: number } {
+        if (rot === 90) return { x: x + w, y, w: depth, h };
+        if (rot === 180) return { x, y: y + h, w, h: depth };
+        if (rot === 270) return { x: x - depth, y, w: depth, h };
+        return { x, y: y - depth, w, h: depth };
+    }
+
+    private static cells(rect: { x: number, y: number, w: number, h: number }): { x: number, y: number }[] {
+        const cells: { x: number, y: number }[] = [];
+        for (let dy = 0; dy < rect.h; dy++) {
+            for (let dx = 0; dx < rect.w; dx++) cells.push({ x: rect.x + dx, y: rect.y + dy });
+        }
+        return cells;
+    }
+
+    private static isRoomFloor(x: number, y: number, ctx: SolverContext): boolean {
+        if (x < 0 || y < 0 || x >= ctx.grid[0].length || y >= ctx.grid.length) return false;
+        if (ctx.grid[y][x] !== ctx.floorValue) return false; // Must be on floor
+        // Irregular rooms (caves) are NOT walled off, so check their tile set explicitly.
+        return !ctx.roomTiles || ctx.roomTiles.has(`${x},${y}`);
+    }
+
+    private static checkBounds(x: number, y: number, w: number, h: number, ctx: SolverContext): boolean {
         // Check if all tiles in footprint are valid floor tiles within the room
         for (let dy = 0; dy < h; dy++) {
             for (let dx = 0; dx < w; dx++) {
-                const nx = x + dx;
-                const ny = y + dy;
-                if (nx < 0 || ny < 0 || nx >= grid[0].length || ny >= grid.length) return false;
-                if (grid[ny][nx] !== floorValue) return false; // Must be on floor
-                // Also, strictly speaking, should be in 'room.zones' list? 
-                // Since we filtered candidates from room.zones, the anchor is in room.
-                // But the extension (w, h) might go out.
-                // So checking grid === floorValue is good proxy, assuming rooms are isolated by walls.
+                if (!this.isRoomFloor(x + dx, y + dy, ctx)) return false;
             }
         }
         return true;
     }
 
+    private static checkAdjacent(x: number, y: number, w: number, h: number, target: PlacedItem): boolean {
+        // Edge contact: touching on one side with some overlap on the other axis
+        const overlapX = x < target.x + target.width && x + w > target.x;
+        const overlapY = y < target.y + target.height && y + h > target.y;
+        const touchX = x + w === target.x || target.x + target.width === x;
+        const touchY = y + h === target.y || target.y + target.height === y;
+        return (touchX && overlapY) || (touchY && overlapX);
+    }
+
     private static checkCollision(x: number, y: number, w: number, h: number, placedItems: PlacedItem[]): boolean {
         // Simple AABB collision
         for (const item of placedItems) {
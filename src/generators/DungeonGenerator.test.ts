@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DungeonGenerator } from './DungeonGenerator';
+import { SeededRandom } from './SeededRandom';
+import { createEmptyReport } from '../types/GenerationReport';
+import { MapConfig } from '../types/MapConfig';
+
+const dungeon: MapConfig = {
+    type: 'dungeon', tone: 'Normal', width: 50, height: 50, description: 'Crypt',
+    rooms: [
+        { id: 'hall', name: 'Hall', type: 'room', width: 10, height: 10, connections: ['cell'], furniture: [] },
+        { id: 'cell', name: 'Cell', type: 'room', width: 5, height: 5, connections: ['hall', 'vault'], furniture: [] },
+        { id: 'vault', name: 'Vault', type: 'room', width: 4, height: 4, connections: ['cell'], furniture: [] }
+    ]
+};
+
+describe('DungeonGenerator', () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    it('reports no unreachable rooms when every corridor is carved', () => {
+        const report = createEmptyReport();
+        new DungeonGenerator().generate(dungeon, new SeededRandom(3), report);
+
+        expect(report.missingDoors).toEqual([]);
+        expect(report.unreachableRooms).toEqual([]);
+    });
+
+    it('reports rooms it could not join as unreachable', () => {
+        // No corridor fits anywhere: both links and both joins fail
+        vi.spyOn(DungeonGenerator.prototype as unknown as { connectRooms: () => boolean }, 'connectRooms').mockReturnValue(false);
+        const report = createEmptyReport();
+        new DungeonGenerator().generate(dungeon, new SeededRandom(3), report);
+
+        expect(report.missingDoors).toHaveLength(2);
+        // The biggest room is the root the others join to
+        expect([...report.unreachableRooms].sort()).toEqual(['cell', 'vault']);
+    });
+});
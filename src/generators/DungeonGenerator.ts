@@ -0,0 +1,414 @@
+import { MapConfig, RoomConfig } from '../types/MapConfig';
+import { MapData, RoomData } from '../types/MapData';
+import { GenerationReport, reportIgnoredLevels } from '../types/GenerationReport';
+import { ProgressCallback, NO_PROGRESS } from '../types/Progress';
+import { IMapGenerator } from './MapGenerators';
+import { ConstraintSolver } from './ConstraintSolver';
+import { SeededRandom } from './SeededRandom';
+
+// Grid Types
+const ROCK = 0;
+const FLOOR = 1;
+const WALL = 2;
+const DOOR = 3;
+const CORRIDOR = 4;
+
+const MIN_LEAF = 8; // Smallest partition side (room 4 + margin 2 on each side)
+const ROOM_MARGIN = 2; // Wall ring + 1 tile of rock between leaf edge and room
+
+class Leaf {
+    constructor(public x: number, public y: number, public w: number, public h: number) {}
+
+    get area() { return this.w * this.h; }
+
+    canSplit(): boolean {
+        return this.w >= MIN_LEAF * 2 || this.h >= MIN_LEAF * 2;
+    }
+
+    split(rng: SeededRandom): [Leaf, Leaf] {
+        // Split across the longer side so leaves stay roughly square
+        const vertical = this.h >= MIN_LEAF * 2 && (this.w < MIN_LEAF * 2 || this.h > this.w);
+        const size = vertical ? this.h : this.w;
+        const cut = rng.int(MIN_LEAF, size - MIN_LEAF);
+
+        if (vertical) {
+            return [new Leaf(this.x, this.y, this.w, cut), new Leaf(this.x, this.y + cut, this.w, this.h - cut)];
+        }
+        return [new Leaf(this.x, this.y, cut, this.h), new Leaf(this.x + cut, this.y, this.w - cut, this.h)];
+    }
+}
+
+interface PlacedRoom {
+    config: RoomConfig;
+    data: RoomData; // x/y/width/height = floor area, walls are the ring around it
+}
+
+export class DungeonGenerator implements IMapGenerator {
+    generate(config: MapConfig, rng: SeededRandom, report: GenerationReport, progress: ProgressCallback = NO_PROGRESS): MapData {
+        console.log(`[DungeonGenerator] Partitioning BSP tree...`);
+        reportIgnoredLevels(config, report); // Single level
+
+        const width = config.width;
+        const height = config.height;
+        const mapData: MapData = {
+            width,
+            height,
+            tiles: [],
+            rooms: [],
+            seed: rng.seed
+        };
+
+        const grid: number[][] = Array(height).fill(0).map(() => Array(width).fill(ROCK));
+
+        // 1. BSP Partition (keep 1 tile of rock around the map)
+        const leaves = this.partition(new Leaf(1, 1, width - 2, height - 2), config.rooms.length, rng);
+        progress({ phase: 'strategy', message: `BSP: ${leaves.length} partitions` });
+
+        // 2. Place Rooms inside Leaves (biggest room -> biggest leaf)
+        const sortedRooms = [...config.rooms].sort((a, b) => this.roomArea(b) - this.roomArea(a));
+        const sortedLeaves = [...leaves].sort((a, b) => b.area - a.area);
+        const placed: PlacedRoom[] = [];
+
+        sortedRooms.forEach((room, i) => {
+            const leaf = sortedLeaves[i];
+            if (!leaf) {
+                console.warn(`[Dungeon] Dropped room: ${room.name} (no partition left)`);
+                report.droppedRooms.push({ id: room.id, name: room.name, reason: 'Not enough space for another partition' });
+                return;
+            }
+
+            const data = this.placeRoom(room, leaf, rng);
+            this.carveRoom(data, grid);
+            mapData.rooms.push(data);
+            placed.push({ config: room, data });
+        });
+        progress({ phase: 'rooms', message: `${placed.length}/${config.rooms.length} rooms placed` });
+
+        // 3. Corridors along the connection graph (each pair once)
+        const linked = new Set<string>();
+        const components = new Map<string, string>(placed.map(p => [p.config.id, p.config.id]));
+        const find = (id: string): string => {
+            const parent = components.get(id)!;
+            return parent === id ? id : find(parent);
+        };
+
+        placed.forEach(a => {
+            a.config.connections.forEach(connId => {
+                const b = placed.find(p => p.config.id === connId);
+                if (!b) return;
+                const key = [a.config.id, b.config.id].sort().join('|');
+                if (linked.has(key)) return;
+                linked.add(key);
+
+                if (this.connectRooms(a, b, grid, rng)) {
+                    components.set(find(a.config.id), find(b.config.id));
+                } else {
+                    report.missingDoors.push({ from: a.config.id, to: b.config.id });
+                }
+            });
+        });
+
+        // 3.5 Join disconnected groups to their nearest connected room
+        if (placed.length > 1) {
+            const root = placed[0];
+            placed.forEach(p => {
+                if (find(p.config.id) === find(root.config.id)) return;
+                const target = placed
+                    .filter(o => find(o.config.id) === find(root.config.id))
+                    .sort((o1, o2) => this.distance(p.data, o1.data) - this.distance(p.data, o2.data))[0];
+                console.log(`[Dungeon] Joining isolated room ${p.config.name} to ${target.config.name}`);
+                if (this.connectRooms(p, target, grid, rng)) {
+                    components.set(find(p.config.id), find(root.config.id));
+                }
+            });
+
+            // Groups no corridor could reach (every member's join failed)
+            placed.forEach(p => {
+                if (find(p.config.id) === find(root.config.id)) return;
+                console.warn(`[Dungeon] Could not join ${p.config.name}, room is unreachable`);
+                report.unreachableRooms.push(p.config.id);
+            });
+        }
+
+        progress({ phase: 'doors', message: `${linked.size} corridors${report.missingDoors.length ? `, ${report.missingDoors.length} failed` : ''}` });
+
+        // 4. Walls around everything carved
+        this.generateWalls(grid);
+        progress({ phase: 'walls', message: 'Walls around rooms and corridors' });
+
+        // 5. Tiles & Furniture
+        this.generateTiles(grid, mapData);
+        progress({ phase: 'tiles', message: `${mapData.tiles.length} tiles` });
+        const tilesBeforeFurniture = mapData.tiles.length;
+        placed.forEach(p => {
+            if (p.config.furniture && p.config.furniture.length > 0) {
+                report.unplacedFurniture.push(...ConstraintSolver.placeItems(p.data, p.config.furniture, mapData, grid, FLOOR, rng));
+            }
+        });
+        progress({ phase: 'furniture', message: `${mapData.tiles.length - tilesBeforeFurniture} items placed` });
+
+        return mapData;
+    }
+
+    // ================= BSP =================
+
+    private partition(root: Leaf, count: number, rng: SeededRandom): Leaf[] {
+        const leaves: Leaf[] = [root];
+        while (leaves.length < count) {
+            // Always split the biggest leaf that still can be split
+            const candidates = leaves.filter(l => l.canSplit()).sort((a, b) => b.area - a.area);
+            if (candidates.length === 0) break;
+            const leaf = candidates[0];
+            leaves.splice(leaves.indexOf(leaf), 1, ...leaf.split(rng));
+        }
+        return leaves;
+    }
+
+    private roomArea(room: RoomConfig): number {
+        return (room.width || 5) * (room.height || 5);
+    }
+
+    private placeRoom(room: RoomConfig, leaf: Leaf, rng: SeededRandom): RoomData {
+        const maxW = leaf.w - ROOM_MARGIN * 2;
+        const maxH = leaf.h - ROOM_MARGIN * 2;
+        const w = Math.max(2, Math.min(Math.floor(room.width || rng.int(4, 8)), maxW));
+        const h = Math.max(2, Math.min(Math.floor(room.height || rng.int(4, 8)), maxH));
+
+        return {
+            id: room.id,
+            name: room.name,
+            type: room.type,
+            x: leaf.x + ROOM_MARGIN + rng.int(0, maxW - w),
+            y: leaf.y + ROOM_MARGIN + rng.int(0, maxH - h),
+            width: w,
+            height: h,
+            doors: []
+        };
+    }
+
+    private carveRoom(room: RoomData, grid: number[][]) {
+        for (let y = room.y - 1; y <= room.y + room.height; y++) {
+            for (let x = room.x - 1; x <= room.x + room.width; x++) {
+                const inside = x >= room.x && x < room.x + room.width && y >= room.y && y < room.y + room.height;
+                grid[y][x] = inside ? FLOOR : WALL;
+            }
+        }
+    }
+
+    private distance(a: RoomData, b: RoomData): number {
+        return Math.abs((a.x + a.width / 2) - (b.x + b.width / 2)) + Math.abs((a.y + a.height / 2) - (b.y + b.height / 2));
+    }
+
+    // ================= CORRIDORS =================
+
+    /**
+     * Opens a door in the wall of each room facing the other one and carves a winding
+     * corridor (1-3 tiles wide) through rock between them.
+     */
+    private connectRooms(a: PlacedRoom, b: PlacedRoom, grid: number[][], rng: SeededRandom): boolean {
+        const corridorWidth = rng.int(1, 3);
+        const doorA = this.pickDoor(a.data, b.data, corridorWidth, rng);
+        const doorB = this.pickDoor(b.data, a.data, corridorWidth, rng);
+
+        const path = this.findCorridorPath(doorA.outside, doorB.outside, grid, rng);
+        if (!path) return false;
+
+        // Doors
+        [{ door: doorA, room: a.data }, { door: doorB, room: b.data }].forEach(({ door, room }) => {
+            door.cells.forEach(cell => {
+                grid[cell.y][cell.x] = DOOR;
+                // Register the floor tile inside the doorway so furniture keeps it clear
+                const inner = { x: cell.x - door.dir.x, y: cell.y - door.dir.y };
+                if (!room.doors!.some(d => d.x === inner.x && d.y === inner.y)) room.doors!.push(inner);
+            });
+        });
+
+        // Corridor: square brush of the corridor width along the path (only through rock).
+        // Door cells run along +x/+y from the path ends, so the brush also covers every doorway.
+        const maxY = grid.length - 1;
+        const maxX = grid[0].length - 1;
+        path.forEach(cell => {
+            for (let dy = 0; dy < corridorWidth; dy++) {
+                for (let dx = 0; dx < corridorWidth; dx++) {
+                    const x = cell.x + dx;
+                    const y = cell.y + dy;
+                    if (x < 1 || y < 1 || x >= maxX || y >= maxY) continue;
+                    if (grid[y][x] === ROCK) grid[y][x] = CORRIDOR;
+                }
+            }
+        });
+
+        return true;
+    }
+
+    /**
+     * Chooses the wall of `room` that faces `target` and returns the door cells on it,
+     * the outward direction and the first rock cell outside the door.
+     */
+    private pickDoor(room: RoomData, target: RoomData, width: number, rng: SeededRandom) {
+        const dx = (target.x + target.width / 2) - (room.x + room.width / 2);
+        const dy = (target.y + target.height / 2) - (room.y + room.height / 2);
+
+        let dir: { x: number, y: number };
+        if (Math.abs(dx) >= Math.abs(dy)) dir = { x: dx >= 0 ? 1 : -1, y: 0 };
+        else dir = { x: 0, y: dy >= 0 ? 1 : -1 };
+
+        const cells: { x: number, y: number }[] = [];
+        if (dir.x !== 0) {
+            const w = Math.min(width, room.height);
+            const start = room.y + rng.int(0, room.height - w);
+            const wallX = dir.x > 0 ? room.x + room.width : room.x - 1;
+            for (let i = 0; i < w; i++) cells.push({ x: wallX, y: start + i });
+        } else {
+            const w = Math.min(width, room.width);
+            const start = room.x + rng.int(0, room.width - w);
+            const wallY = dir.y > 0 ? room.y + room.height : room.y - 1;
+            for (let i = 0; i < w; i++) cells.push({ x: start + i, y: wallY });
+        }
+
+        return {
+            cells,
+            dir,
+            outside: { x: cells[0].x + dir.x, y: cells[0].y + dir.y }
+        };
+    }
+
+    /**
+     * Dijkstra through rock with seeded per-cell noise, so corridors wind instead of
+     * running in straight lines. Existing corridors are cheaper, so passages merge.
+     */
+    private findCorridorPath(start: { x: number, y: number }, end: { x: number, y: number }, grid: number[][], rng: SeededRandom): { x: number, y: number }[] | null {
+        const height = grid.length;
+        const width = grid[0].length;
+        const passable = (x: number, y: number) =>
+            x >= 1 && y >= 1 && x < width - 1 && y < height - 1 && (grid[y][x] === ROCK || grid[y][x] === CORRIDOR);
+
+        if (!passable(start.x, start.y) || !passable(end.x, end.y)) return null;
+
+        const noise: number[][] = Array(height).fill(0).map(() => Array(width).fill(0).map(() => rng.next() * 3));
+        const dist: number[][] = Array(height).fill(0).map(() => Array(width).fill(Infinity));
+        const prev: (number | null)[][] = Array(height).fill(0).map(() => Array(width).fill(null));
+        const heap = new MinHeap();
+
+        dist[start.y][start.x] = 0;
+        heap.push(0, start.y * width + start.x);
+
+        const dirs = [[0,-1], [0,1], [-1,0], [1,0]];
+        while (heap.size > 0) {
+            const { priority, value } = heap.pop()!;
+            const x = value % width;
+            const y = Math.floor(value / width);
+            if (priority > dist[y][x]) continue;
+            if (x === end.x && y === end.y) break;
+
+            for (const [ddx, ddy] of dirs) {
+                const nx = x + ddx;
+                const ny = y + ddy;
+                if (!passable(nx, ny)) continue;
+                const cost = grid[ny][nx] === CORRIDOR ? 0.5 : 1 + noise[ny][nx];
+                const nd = dist[y][x] + cost;
+                if (nd < dist[ny][nx]) {
+                    dist[ny][nx] = nd;
+                    prev[ny][nx] = value;
+                    heap.push(nd, ny * width + nx);
+                }
+            }
+        }
+
+        if (dist[end.y][end.x] === Infinity) return null;
+
+        const path: { x: number, y: number }[] = [];
+        let cur: number | null = end.y * width + end.x;
+        while (cur !== null) {
+            const x: number = cur % width;
+            const y: number = Math.floor(cur / width);
+            path.push({ x, y });
+            cur = prev[y][x];
+        }
+        return path.reverse();
+    }
+
+    // ================= WALLS & TILES =================
+
+    private generateWalls(grid: number[][]) {
+        const height = grid.length;
+        const width = grid[0].length;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (grid[y][x] !== ROCK) continue;
+                for (let dy = -1; dy <= 1 && grid[y][x] === ROCK; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const ny = y + dy;
+                        const nx = x + dx;
+                        if (ny < 0 || nx < 0 || ny >= height || nx >= width) continue;
+                        if (grid[ny][nx] === CORRIDOR) {
+                            grid[y][x] = WALL;
+                            break;
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    private generateTiles(grid: number[][], mapData: MapData) {
+        for (let y = 0; y < mapData.height; y++) {
+            for (let x = 0; x < mapData.width; x++) {
+                const val = grid[y][x];
+                if (val === WALL) {
+                    mapData.tiles.push({ x, y, sprite: 'wall_dungeon', layer: 'wall' });
+                } else if (val === FLOOR || val === DOOR) {
+                    mapData.tiles.push({ x, y, sprite: 'floor_stone', layer: 'floor' });
+                    if (val === DOOR) {
+                        mapData.tiles.push({ x, y, sprite: 'door_wood', layer: 'furniture' });
+                    }
+                } else if (val === CORRIDOR) {
+                    mapData.tiles.push({ x, y, sprite: 'floor_corridor', layer: 'floor' });
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Minimal binary heap for Dijkstra.
+ */
+class MinHeap {
+    private items: { priority: number, value: number }[] = [];
+
+    get size() { return this.items.length; }
+
+    push(priority: number, value: number) {
+        const items = this.items;
+        items.push({ priority, value });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].priority <= items[i].priority) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): { priority: number, value: number } | undefined {
+        const items = this.items;
+        if (items.length === 0) return undefined;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = i * 2 + 1;
+                const r = l + 1;
+                let smallest = i;
+                if (l < items.length && items[l].priority < items[smallest].priority) smallest = l;
+                if (r < items.length && items[r].priority < items[smallest].priority) smallest = r;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
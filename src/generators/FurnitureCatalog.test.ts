@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { FurnitureCatalog } from './FurnitureCatalog';
+import { AssetMapper } from '../game/AssetMapper';
+
+describe('FurnitureCatalog.resolve', () => {
+    it('matches ids, aliases and plurals', () => {
+        expect(FurnitureCatalog.resolve('bed')?.id).toBe('bed');
+        expect(FurnitureCatalog.resolve('Bunk')?.id).toBe('bed');
+        expect(FurnitureCatalog.resolve('chairs')?.id).toBe('chair');
+        expect(FurnitureCatalog.resolve('dining_table')?.id).toBe('table');
+    });
+
+    it('matches a known name as a whole word only', () => {
+        expect(FurnitureCatalog.resolve('four poster bed')?.id).toBe('bed');
+        expect(FurnitureCatalog.resolve('oak desk')?.id).toBe('table');
+        expect(FurnitureCatalog.resolve('bedrock')).toBeUndefined();
+    });
+});
+
+describe('AssetMapper furniture sprites', () => {
+    it('uses the catalog sprite for known items', () => {
+        const bed = FurnitureCatalog.resolve('bed')!;
+        expect(AssetMapper.getSpriteConfig('Bunk').frame).toBe(bed.sprite.frame);
+    });
+
+    it('falls back to substring matches for names the catalog does not know', () => {
+        expect(AssetMapper.getSpriteConfig('tablecloth').frame).toBe('table');
+        expect(AssetMapper.getSpriteConfig('oaktable').frame).toBe('table');
+        expect(AssetMapper.getSpriteConfig('bookcase_large').frame).toBe('chest');
+    });
+
+    it('shows the magenta error box for unknown names', () => {
+        expect(AssetMapper.getSpriteConfig('flux capacitor').tint).toBe(0xff00ff);
+    });
+});
@@ -0,0 +1,139 @@
+import { ZoneType } from '../types/MapData';
+import catalogData from '../data/furniture.json';
+
+// Single source of truth for furniture: the solver reads footprints and placement rules,
+// AssetMapper reads sprites and the AI prompt lists the ids, all from src/data/furniture.json.
+
+export interface FurnitureDefinition {
+    id: string; // Canonical id written to TileData.sprite
+    aliases: string[]; // Other names the AI (or a user) may use
+    width: number; // Footprint at rotation 0
+    height: number;
+    zones: ZoneType[]; // Preferred zones, in order
+    blocksDoor?: boolean; // If true, cannot be placed on a door vector
+    faces?: string; // Canonical id this item must face (e.g., 'tv' faces 'sofa')
+    adjacentTo?: string; // Canonical id this item must touch (e.g., 'chair' next to 'table')
+    facesInward?: boolean; // Back against a wall, front towards the room
+    clearance?: number; // Tiles in front that must stay free (doors of a wardrobe, a cook at the stove)
+    minPerRoom?: number; // Copies placed together whenever the item is requested (default 1)
+    maxPerRoom?: number;
+    walkable?: boolean; // Flat items (rugs) don't block movement
+    light?: FurnitureLight;
+    sprite: {
+        frame: string; // Atlas frame
+        tint?: string; // '#rrggbb'
+    };
+}
+
+// Point light emitted by an item (fire, torch...). Walls and closed doors block it
+export interface FurnitureLight {
+    radius: number; // Tiles
+    color: string; // '#rrggbb'
+    intensity?: number; // Default 1
+    flicker?: number; // 0..1, how much the light wavers. Default 0 (steady)
+}
+
+// A set placed as a unit ("dining set"): every member's `min` copies or nothing,
+// then up to `max` copies where they still fit
+export interface FurnitureGroup {
+    id: string;
+    aliases: string[];
+    items: { id: string, min: number, max: number }[];
+}
+
+export interface FurnitureCatalogData {
+    version: number;
+    items: FurnitureDefinition[];
+    groups?: FurnitureGroup[];
+}
+
+export class FurnitureCatalog {
+    private static items: FurnitureDefinition[] = [];
+    private static groups: FurnitureGroup[] = [];
+    private static index = new Map<string, FurnitureDefinition>();
+    private static groupIndex = new Map<string, FurnitureGroup>();
+    // Multi-word aliases first, so "dining table" wins over "table"
+    private static names: string[] = [];
+
+    /**
+     * Replaces the catalog (e.g. with a user-supplied JSON file).
+     */
+    static load(data: FurnitureCatalogData): void {
+        if (!data || !Array.isArray(data.items)) {
+            throw new Error('[FurnitureCatalog] Invalid catalog: missing items');
+        }
+
+        this.items = data.items;
+        this.index.clear();
+        for (const item of data.items) {
+            for (const name of [item.id, ...item.aliases]) {
+                const key = this.normalize(name);
+                if (this.index.has(key)) {
+                    console.warn(`[FurnitureCatalog] '${name}' is defined twice, keeping ${this.index.get(key)!.id}`);
+                    continue;
+                }
+                this.index.set(key, item);
+            }
+        }
+        this.names = [...this.index.keys()].sort((a, b) => b.split(' ').length - a.split(' ').length || b.length - a.length);
+
+        this.groups = data.groups ?? [];
+        this.groupIndex.clear();
+        for (const group of this.groups) {
+            const unknown = group.items.filter(m => !this.index.has(this.normalize(m.id)));
+            if (unknown.length > 0) {
+                console.warn(`[FurnitureCatalog] Group ${group.id} uses unknown items: ${unknown.map(m => m.id).join(', ')}`);
+            }
+            for (const name of [group.id, ...group.aliases]) {
+                this.groupIndex.set(this.normalize(name), group);
+            }
+        }
+    }
+
+    static all(): FurnitureDefinition[] {
+        return this.items;
+    }
+
+    static allGroups(): FurnitureGroup[] {
+        return this.groups;
+    }
+
+    /**
+     * Resolves a group name ("Dining Set", "dining_sets"). Groups only match exactly (or as a plural).
+     */
+    static resolveGroup(name: string): FurnitureGroup | undefined {
+        const key = this.normalize(name);
+        return this.groupIndex.get(key) || this.groupIndex.get(key.replace(/s$/, ''));
+    }
+
+    /**
+     * Resolves any name the AI might use ("Bunk", "oak desk", "crates") to a catalog item.
+     */
+    static resolve(name: string): FurnitureDefinition | undefined {
+        const key = this.normalize(name);
+
+        // 1. Exact id or alias
+        const exact = this.index.get(key);
+        if (exact) return exact;
+
+        // 2. Plurals
+        const singular = key.replace(/(es|s)$/, '');
+        const plural = this.index.get(singular) || this.index.get(key.replace(/s$/, ''));
+        if (plural) return plural;
+
+        // 3. Known name as a whole word inside a longer one ("four poster bed", "oak desk")
+        const padded = ` ${key} `;
+        const match = this.names.find(n => padded.includes(` ${n} `));
+        return match ? this.index.get(match) : undefined;
+    }
+
+    static parseTint(tint?: string): number | undefined {
+        return tint ? parseInt(tint.replace('#', ''), 16) : undefined;
+    }
+
+    private static normalize(name: string): string {
+        return name.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+}
+
+FurnitureCatalog.load(catalogData as FurnitureCatalogData);
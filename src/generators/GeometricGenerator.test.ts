@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GeometricGenerator, mirrorRoomId } from './GeometricGenerator';
+import { SeededRandom } from './SeededRandom';
+import { MapConfig, RoomConfig } from '../types/MapConfig';
+import { createEmptyReport } from '../types/GenerationReport';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+const room = (id: string, furniture: string[] = []): RoomConfig => ({ id, name: id, type: 'chapel', connections: [], furniture, width: 6, height: 6 });
+
+const temple = (rooms: RoomConfig[]): MapConfig =>
+    ({ type: 'geometric', tone: 'Normal', width: 50, height: 50, description: '', shape: 'ellipse', rooms });
+
+describe('mirrorRoomId', () => {
+    it('never returns a taken id', () => {
+        expect(mirrorRoomId('a', new Set(['a']))).toBe('a~mirror');
+        expect(mirrorRoomId('a', new Set(['a', 'a~mirror', 'a~mirror2']))).toBe('a~mirror3');
+    });
+});
+
+describe('GeometricGenerator', () => {
+    it('reports every mirror room under an id no config room uses', () => {
+        const report = createEmptyReport();
+        const config = temple([room('altar'), room('a', ['chest']), room('a~mirror', ['bed'])]);
+        const mapData = new GeometricGenerator().generate(config, new SeededRandom(7), report);
+
+        expect(report.droppedRooms).toEqual([]);
+        expect(report.mirroredRooms.map(m => m.source)).toEqual(['a', 'a~mirror']);
+        const ids = mapData.rooms.map(r => r.id);
+        expect(new Set(ids).size).toBe(ids.length);
+        report.mirroredRooms.forEach(m => {
+            expect(ids).toContain(m.id);
+            expect(config.rooms.some(r => r.id === m.id)).toBe(false);
+        });
+    });
+
+    it('furnishes a mirror like its source room', () => {
+        const report = createEmptyReport();
+        const mapData = new GeometricGenerator().generate(temple([room('altar'), room('cell', ['bed'])]), new SeededRandom(7), report);
+        const furnitureIn = (id: string) => {
+            const tiles = mapData.rooms.find(r => r.id === id)!.tiles!;
+            return mapData.tiles.filter(t => t.layer === 'furniture' && t.sprite !== 'door_wood' && tiles.some(c => c.x === t.x && c.y === t.y)).map(t => t.sprite);
+        };
+        expect(furnitureIn('cell')).not.toEqual([]);
+        expect(furnitureIn(report.mirroredRooms[0].id)).toEqual(furnitureIn('cell'));
+    });
+});
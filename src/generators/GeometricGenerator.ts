@@ -1,147 +1,392 @@
-import { MapConfig } from '../types/MapConfig';
-import { MapData } from '../types/MapData';
+import { MapConfig, RoomConfig } from '../types/MapConfig';
+import { MapData, RoomData } from '../types/MapData';
+import { GenerationReport, reportIgnoredLevels } from '../types/GenerationReport';
+import { ProgressCallback, NO_PROGRESS } from '../types/Progress';
 import { IMapGenerator } from './MapGenerators';
 import { ConstraintSolver } from './ConstraintSolver';
+import { SeededRandom } from './SeededRandom';
+import { HULL_SHAPES, inferHullShape } from './HullShapes';
+
+// Grid Types (Floor = 0, as the ConstraintSolver expects for this generator)
+const FLOOR = 0;
+const SOLID = 1;
+const WALL = 2;
+const DOOR = 3;
+
+// A room rectangle including its partition walls
+interface RoomRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+type Dir = { x: number, y: number };
+
+/**
+ * Id of the generated mirror image of config room `id`. Config ids are free text, so the
+ * suffix is bumped until it doesn't clash with any id in `taken`.
+ */
+export const mirrorRoomId = (id: string, taken: Set<string>): string => {
+    let mirrorId = `${id}~mirror`;
+    for (let n = 2; taken.has(mirrorId); n++) mirrorId = `${id}~mirror${n}`;
+    return mirrorId;
+};
 
 export class GeometricGenerator implements IMapGenerator {
-    generate(config: MapConfig): MapData {
+    generate(config: MapConfig, rng: SeededRandom, report: GenerationReport, progress: ProgressCallback = NO_PROGRESS): MapData {
         console.log(`[GeometricGenerator] Calculating Shape Constraints...`);
-        
+        reportIgnoredLevels(config, report); // Single level
+
         const mapData: MapData = {
             width: config.width,
             height: config.height,
             tiles: [],
-            rooms: []
+            rooms: [],
+            seed: rng.seed
         };
 
-        const cx = Math.floor(config.width / 2);
-        const cy = Math.floor(config.height / 2);
-        
-        // Example: Ellipse (Ship Hull / Wizard Tower)
-        const rx = Math.floor(config.width / 2) - 2;
-        const ry = Math.floor(config.height / 2) - 4;
+        const shape = config.shape && HULL_SHAPES[config.shape] ? config.shape : inferHullShape(config.description || '');
+        const inHull = HULL_SHAPES[shape];
+        console.log(`[GeometricGenerator] Hull: ${shape}`);
+        progress({ phase: 'strategy', message: `Mirrored rooms in a ${shape} hull` });
 
-        // Create Grid for Solver (1=Wall, 0=Floor)
-        const grid: number[][] = Array(config.height).fill(0).map(() => Array(config.width).fill(1));
+        // Mirror axis sits exactly between the two middle columns, so mirrored rooms line up
+        const cx = (config.width - 1) / 2;
+        const cy = (config.height - 1) / 2;
+        const rx = config.width / 2 - 2;
+        const ry = config.height / 2 - 2;
 
-        // 1. Draw Hull Floor and Walls
+        // Create Grid for Solver
+        const grid: number[][] = Array(config.height).fill(0).map(() => Array(config.width).fill(SOLID));
+        // ownerGrid stores the index (in mapData.rooms) of the room owning each interior tile
+        const ownerGrid: number[][] = Array(config.height).fill(0).map(() => Array(config.width).fill(-1));
+
+        // 1. Hull Floor
         for (let y = 0; y < config.height; y++) {
             for (let x = 0; x < config.width; x++) {
-                // Ellipse Equation: (x-h)^2/a^2 + (y-k)^2/b^2 <= 1
-                const val = (Math.pow(x - cx, 2) / Math.pow(rx, 2)) + (Math.pow(y - cy, 2) / Math.pow(ry, 2));
-                
-                if (val <= 1.0) {
-                    grid[y][x] = 0; // Floor
-                     mapData.tiles.push({
-                        x, y,
-                        sprite: 'floor_stone',
-                        layer: 'floor'
-                    });
-                } else {
-                    // Check if close to border (simple wall placement)
-                    // If val is just slightly above 1, it's a wall.
-                    // Or check 4 neighbors.
-                    let isWall = false;
-                    const neighbors = [[0,1], [0,-1], [1,0], [-1,0]];
-                    for (const [dx, dy] of neighbors) {
-                        const nx = x + dx;
-                        const ny = y + dy;
-                        const nVal = (Math.pow(nx - cx, 2) / Math.pow(rx, 2)) + (Math.pow(ny - cy, 2) / Math.pow(ry, 2));
-                        if (nVal <= 1.0) {
-                            isWall = true;
-                            break;
-                        }
-                    }
-                    
-                    if (isWall) {
-                        mapData.tiles.push({
-                            x, y,
-                            sprite: 'wall_brick',
-                            layer: 'wall'
-                        });
-                    }
-                }
+                if (inHull((x - cx) / rx, (y - cy) / ry)) grid[y][x] = FLOOR;
             }
         }
 
         // 2. Place Rooms Symmetrically (Cathedral/Ship Logic)
         const roomsToPlace = [...config.rooms];
-        
-        // Place first room at Center (Bridge/Altar)
+
+        // First room sits on the axis (Bridge/Altar), at the centre if the hull allows it
         if (roomsToPlace.length > 0) {
             const centerRoom = roomsToPlace.shift()!;
-            const w = 8;
-            const h = 8;
-            const rx_center = cx - w/2;
-            const ry_center = cy - h/2;
-            mapData.rooms.push({
-                id: centerRoom.id,
-                x: rx_center,
-                y: ry_center,
-                width: w,
-                height: h,
-                type: centerRoom.type
-            });
+            const dim = this.getRoomDimensions(centerRoom, 8);
+            const rect = this.findAxialPosition(dim.w, dim.h, grid, ownerGrid, cy);
+            if (rect) {
+                const room = this.addRoom(centerRoom.id, centerRoom, rect, grid, ownerGrid, mapData);
+                // Open every side that faces free hull floor so the axis room never blocks the nave
+                const opened = [{ x: 0, y: -1 }, { x: 0, y: 1 }, { x: -1, y: 0 }, { x: 1, y: 0 }]
+                    .filter(dir => this.placeDoor(room, rect, dir, grid, ownerGrid, mapData)).length;
+                if (opened === 0) console.warn(`[GeometricGenerator] No door for ${centerRoom.name}`);
+            } else {
+                report.droppedRooms.push({ id: centerRoom.id, name: centerRoom.name, reason: `Does not fit inside the ${shape} hull` });
+            }
+        }
+
+        // Remaining rooms in mirrored pairs, hugging the hull on the left and right
+        const takenIds = new Set(config.rooms.map(r => r.id));
+        for (const leftRoom of roomsToPlace) {
+            const dim = this.getRoomDimensions(leftRoom, 6);
+            const mirrorId = mirrorRoomId(leftRoom.id, takenIds);
+            let placed = false;
+
+            // Try spots in scan order, undoing any pair that would cut an earlier room off
+            for (const rect of this.findMirroredPositions(dim.w, dim.h, grid, ownerGrid, cx, config.width)) {
+                const mirrorRect = { ...rect, x: config.width - rect.x - rect.w };
+                // Carving and doors only touch the two rectangles: save those, not the whole grid
+                const undo = this.saveCells([rect, mirrorRect], grid, ownerGrid);
+                const roomCount = mapData.rooms.length;
+
+                const left = this.addRoom(leftRoom.id, leftRoom, rect, grid, ownerGrid, mapData);
+                const right = this.addRoom(mirrorId, leftRoom, mirrorRect, grid, ownerGrid, mapData);
+
+                // Doors face the axis first, then up/down towards the centre line, then outwards
+                const vertical = rect.y + rect.h / 2 < cy ? { x: 0, y: 1 } : { x: 0, y: -1 };
+                this.openFirstDoor(left, rect, [{ x: 1, y: 0 }, vertical, { x: 0, y: -vertical.y }, { x: -1, y: 0 }], grid, ownerGrid, mapData);
+                this.openFirstDoor(right, mirrorRect, [{ x: -1, y: 0 }, vertical, { x: 0, y: -vertical.y }, { x: 1, y: 0 }], grid, ownerGrid, mapData);
+
+                if (this.allRoomsConnected(grid, mapData)) {
+                    placed = true;
+                    break;
+                }
+
+                undo();
+                mapData.rooms.length = roomCount;
+            }
+
+            if (placed) {
+                takenIds.add(mirrorId);
+                report.mirroredRooms.push({ id: mirrorId, source: leftRoom.id });
+            } else {
+                report.droppedRooms.push({ id: leftRoom.id, name: leftRoom.name, reason: `Does not fit inside the ${shape} hull` });
+            }
+        }
+
+        progress({ phase: 'rooms', message: `${mapData.rooms.length} rooms placed (mirrors included), ${report.droppedRooms.length} dropped` });
+
+        // Hull pockets walled off by the rooms can never be entered: fill them in
+        const reachable = this.floodOpen(grid, mapData);
+        if (reachable) {
+            for (let y = 0; y < config.height; y++) {
+                for (let x = 0; x < config.width; x++) {
+                    if (grid[y][x] === FLOOR && !reachable[y][x]) grid[y][x] = SOLID;
+                }
+            }
         }
 
-        // Place remaining rooms in mirrored pairs
-        // Start from top, but ensure we don't overlap the center room if it's wide/tall
-        // For simplicity, we'll place them in columns on left/right
-        let currentY = 4; 
-        const xOffset = 12; // Increased offset to clear the center room
-        
-        while (roomsToPlace.length > 0) {
-            const leftRoom = roomsToPlace.shift();
-            if (!leftRoom) break;
-
-            // Left Side
-            const w = 6;
-            const h = 6;
-            const lx = cx - xOffset - w;
-            const ly = currentY;
-
-            mapData.rooms.push({
-                id: leftRoom.id,
-                x: lx,
-                y: ly,
-                width: w,
-                height: h,
-                type: leftRoom.type
-            });
-
-            // Mirror (Right Side) - ONLY for secondary rooms
-            const rx_pos = cx + xOffset;
-            mapData.rooms.push({
-                id: `${leftRoom.id}_mirror`,
-                x: rx_pos,
-                y: ly,
-                width: w,
-                height: h,
-                type: leftRoom.type
-            });
-            
-            currentY += h + 2;
+        // 3. Tiles (hull floor, partition walls, doors, hull walls)
+        const floorSprite = shape === 'ship' ? 'floor_wood' : 'floor_stone';
+        for (let y = 0; y < config.height; y++) {
+            for (let x = 0; x < config.width; x++) {
+                const val = grid[y][x];
+                if (val === FLOOR || val === DOOR) {
+                    mapData.tiles.push({ x, y, sprite: floorSprite, layer: 'floor' });
+                    if (val === DOOR) mapData.tiles.push({ x, y, sprite: 'door_wood', layer: 'furniture' });
+                } else if (val === WALL) {
+                    mapData.tiles.push({ x, y, sprite: 'wall_stone', layer: 'wall' });
+                } else if (this.touchesHull(grid, x, y)) {
+                    mapData.tiles.push({ x, y, sprite: 'wall_brick', layer: 'wall' });
+                }
+            }
         }
 
-        // 3. Place Furniture (Constraint Solver)
+        progress({ phase: 'tiles', message: `${mapData.tiles.length} tiles (walls and doors included)` });
+
+        // 4. Place Furniture (Constraint Solver)
+        const tilesBeforeFurniture = mapData.tiles.length;
         mapData.rooms.forEach(room => {
-            // Check if it's a mirror
-            const isMirror = room.id.endsWith('_mirror');
-            const originalId = isMirror ? room.id.replace('_mirror', '') : room.id;
-            const roomConfig = config.rooms.find(c => c.id === originalId);
-            
+            // Mirrors are furnished like the room they mirror
+            const sourceId = report.mirroredRooms.find(m => m.id === room.id)?.source ?? room.id;
+            const roomConfig = config.rooms.find(c => c.id === sourceId);
+
             let items = roomConfig ? [...roomConfig.furniture] : [];
-            
+
             // Fallback
             if (items.length === 0) {
                  if (room.type.includes('bridge') || room.type.includes('altar')) items = ['throne', 'rug'];
                  else if (room.type.includes('quarters')) items = ['bed', 'chest'];
                  else items = ['chair', 'table'];
             }
-            
-            ConstraintSolver.placeItems(room, items, mapData, grid, 0);
+
+            report.unplacedFurniture.push(...ConstraintSolver.placeItems(room, items, mapData, grid, FLOOR, rng));
         });
+        progress({ phase: 'furniture', message: `${mapData.tiles.length - tilesBeforeFurniture} items placed` });
 
         return mapData;
     }
+
+    // ================= PLACEMENT =================
+
+    private getRoomDimensions(room: RoomConfig, fallback: number): { w: number, h: number } {
+        // Dimensions include the partition walls
+        return {
+            w: Math.max(4, Math.floor(room.width || fallback)),
+            h: Math.max(4, Math.floor(room.height || fallback))
+        };
+    }
+
+    /**
+     * Centre of the hull if possible, otherwise the first row on the axis where the room fits.
+     */
+    private findAxialPosition(w: number, h: number, grid: number[][], ownerGrid: number[][], cy: number): RoomRect | null {
+        const x = Math.floor((grid[0].length - w) / 2);
+        const centered = { x, y: Math.floor(cy - h / 2) + 1, w, h };
+        if (this.fits(centered, grid, ownerGrid)) return centered;
+
+        for (let y = 1; y + h < grid.length; y++) {
+            const rect = { x, y, w, h };
+            if (this.fits(rect, grid, ownerGrid)) return rect;
+        }
+        return null;
+    }
+
+    /**
+     * Scans the left half (top to bottom, outside in) for spots where both the room
+     * and its mirror image fit. Lazy: checked against the grid as it is when each spot is asked for.
+     */
+    private *findMirroredPositions(w: number, h: number, grid: number[][], ownerGrid: number[][], cx: number, mapW: number): Generator<RoomRect> {
+        for (let y = 1; y + h < grid.length; y++) {
+            for (let x = 1; x + w - 1 < cx; x++) {
+                const rect = { x, y, w, h };
+                const mirror = { ...rect, x: mapW - x - w };
+                if (this.fits(rect, grid, ownerGrid) && this.fits(mirror, grid, ownerGrid)) yield rect;
+            }
+        }
+    }
+
+    /**
+     * Remembers the cells under `rects` and returns a function that restores them.
+     */
+    private saveCells(rects: RoomRect[], grid: number[][], ownerGrid: number[][]): () => void {
+        const saved: { x: number, y: number, value: number, owner: number }[] = [];
+        rects.forEach(rect => {
+            for (let y = rect.y; y < rect.y + rect.h; y++) {
+                for (let x = rect.x; x < rect.x + rect.w; x++) saved.push({ x, y, value: grid[y][x], owner: ownerGrid[y][x] });
+            }
+        });
+        return () => saved.forEach(({ x, y, value, owner }) => {
+            grid[y][x] = value;
+            ownerGrid[y][x] = owner;
+        });
+    }
+
+    /**
+     * Checks every room can be reached from the first one.
+     */
+    private allRoomsConnected(grid: number[][], mapData: MapData): boolean {
+        const visited = this.floodOpen(grid, mapData);
+        return !visited || mapData.rooms.every(room => room.tiles!.some(t => visited[t.y][t.x]));
+    }
+
+    /**
+     * Flood-fills open tiles (floor + doors) from the first room. Null when no room was placed.
+     */
+    private floodOpen(grid: number[][], mapData: MapData): boolean[][] | null {
+        const start = mapData.rooms[0]?.tiles?.[0];
+        if (!start) return null;
+
+        const height = grid.length;
+        const width = grid[0].length;
+        const visited: boolean[][] = Array(height).fill(0).map(() => Array(width).fill(false));
+        const queue = [start];
+        visited[start.y][start.x] = true;
+        const dirs = [[0,-1], [0,1], [-1,0], [1,0]];
+
+        for (let head = 0; head < queue.length; head++) {
+            const { x, y } = queue[head];
+            for (const [dx, dy] of dirs) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx < 0 || ny < 0 || nx >= width || ny >= height || visited[ny][nx]) continue;
+                if (grid[ny][nx] !== FLOOR && grid[ny][nx] !== DOOR) continue;
+                visited[ny][nx] = true;
+                queue.push({ x: nx, y: ny });
+            }
+        }
+
+        return visited;
+    }
+
+    /**
+     * A room fits if most of it lies inside the hull (the rest is clipped) and its interior
+     * doesn't overlap another room. Walls may be shared.
+     */
+    private fits(rect: RoomRect, grid: number[][], ownerGrid: number[][]): boolean {
+        if (rect.x < 0 || rect.y < 0 || rect.x + rect.w > grid[0].length || rect.y + rect.h > grid.length) return false;
+
+        let inside = 0;
+        let interior = 0;
+        for (let y = rect.y; y < rect.y + rect.h; y++) {
+            for (let x = rect.x; x < rect.x + rect.w; x++) {
+                const val = grid[y][x];
+                if (ownerGrid[y][x] !== -1 || val === DOOR) return false;
+                if (val === SOLID) continue;
+                if (this.touchesDoor(grid, x, y)) return false; // Never wall off an earlier doorway
+
+                const isPerimeter = x === rect.x || y === rect.y || x === rect.x + rect.w - 1 || y === rect.y + rect.h - 1;
+                if (!isPerimeter && val === WALL) return false;
+                inside++;
+                if (!isPerimeter) interior++;
+            }
+        }
+        return inside / (rect.w * rect.h) >= 0.8 && interior >= 4;
+    }
+
+    /**
+     * Rasterizes the room clipped to the hull: perimeter becomes partition wall,
+     * the rest becomes the room's floor tiles.
+     */
+    private addRoom(id: string, config: RoomConfig, rect: RoomRect, grid: number[][], ownerGrid: number[][], mapData: MapData): RoomData {
+        const idx = mapData.rooms.length;
+        const tiles: { x: number, y: number }[] = [];
+
+        for (let y = rect.y; y < rect.y + rect.h; y++) {
+            for (let x = rect.x; x < rect.x + rect.w; x++) {
+                if (grid[y][x] === SOLID) continue;
+                const isPerimeter = x === rect.x || y === rect.y || x === rect.x + rect.w - 1 || y === rect.y + rect.h - 1;
+                if (isPerimeter) {
+                    grid[y][x] = WALL;
+                } else {
+                    ownerGrid[y][x] = idx;
+                    tiles.push({ x, y });
+                }
+            }
+        }
+
+        const xs = tiles.map(t => t.x);
+        const ys = tiles.map(t => t.y);
+        const room: RoomData = {
+            id,
+            name: config.name,
+            type: config.type,
+            x: Math.min(...xs),
+            y: Math.min(...ys),
+            width: Math.max(...xs) - Math.min(...xs) + 1,
+            height: Math.max(...ys) - Math.min(...ys) + 1,
+            tiles,
+            doors: []
+        };
+        mapData.rooms.push(room);
+        return room;
+    }
+
+    private openFirstDoor(room: RoomData, rect: RoomRect, dirs: Dir[], grid: number[][], ownerGrid: number[][], mapData: MapData) {
+        for (const dir of dirs) {
+            if (this.placeDoor(room, rect, dir, grid, ownerGrid, mapData)) return;
+        }
+        console.warn(`[GeometricGenerator] No door for ${room.name || room.id}`);
+    }
+
+    /**
+     * Opens a door on the wall facing `dir`, as close to the middle of that wall as possible.
+     * The tile inside must be this room's floor and the tile outside must be open hull floor.
+     */
+    private placeDoor(room: RoomData, rect: RoomRect, dir: Dir, grid: number[][], ownerGrid: number[][], mapData: MapData): boolean {
+        const idx = mapData.rooms.indexOf(room);
+        const candidates: { x: number, y: number }[] = [];
+
+        if (dir.x !== 0) {
+            const wallX = dir.x > 0 ? rect.x + rect.w - 1 : rect.x;
+            for (let y = rect.y + 1; y < rect.y + rect.h - 1; y++) candidates.push({ x: wallX, y });
+        } else {
+            const wallY = dir.y > 0 ? rect.y + rect.h - 1 : rect.y;
+            for (let x = rect.x + 1; x < rect.x + rect.w - 1; x++) candidates.push({ x, y: wallY });
+        }
+
+        const midX = rect.x + rect.w / 2;
+        const midY = rect.y + rect.h / 2;
+        candidates.sort((a, b) => (Math.abs(a.x - midX) + Math.abs(a.y - midY)) - (Math.abs(b.x - midX) + Math.abs(b.y - midY)));
+
+        for (const cell of candidates) {
+            const inner = { x: cell.x - dir.x, y: cell.y - dir.y };
+            const outer = { x: cell.x + dir.x, y: cell.y + dir.y };
+            if (grid[cell.y]?.[cell.x] !== WALL) continue;
+            if (ownerGrid[inner.y]?.[inner.x] !== idx) continue;
+            if (grid[outer.y]?.[outer.x] !== FLOOR || ownerGrid[outer.y][outer.x] !== -1) continue;
+
+            grid[cell.y][cell.x] = DOOR;
+            room.doors!.push(inner); // Keep the doorway clear of furniture
+            return true;
+        }
+        return false;
+    }
+
+    private touchesDoor(grid: number[][], x: number, y: number): boolean {
+        const neighbors = [[0,1], [0,-1], [1,0], [-1,0]];
+        return neighbors.some(([dx, dy]) => grid[y + dy]?.[x + dx] === DOOR);
+    }
+
+    private touchesHull(grid: number[][], x: number, y: number): boolean {
+        const neighbors = [[0,1], [0,-1], [1,0], [-1,0]];
+        for (const [dx, dy] of neighbors) {
+            const val = grid[y + dy]?.[x + dx];
+            if (val !== undefined && val !== SOLID) return true;
+        }
+        return false;
+    }
 }
@@ -0,0 +1,50 @@
+import { HullShape } from '../types/MapConfig';
+
+/**
+ * Hull membership tests in normalized coordinates:
+ * nx/ny are -1..1 across the usable map area (0,0 = map centre).
+ * Every shape is mirror-symmetric on X, so rooms can be placed in mirrored pairs.
+ */
+export const HULL_SHAPES: Record<HullShape, (nx: number, ny: number) => boolean> = {
+    ellipse: (nx, ny) => nx * nx + ny * ny <= 1,
+
+    // Regular octagon (apothem 1)
+    octagon: (nx, ny) => Math.abs(nx) <= 1 && Math.abs(ny) <= 1 && Math.abs(nx) + Math.abs(ny) <= Math.SQRT2,
+
+    // Cathedral: long nave, transept crossing near the top and a round apse
+    cross: (nx, ny) => {
+        const nave = Math.abs(nx) <= 0.35 && ny >= -0.75 && ny <= 1;
+        const transept = Math.abs(nx) <= 1 && ny >= -0.45 && ny <= -0.05;
+        const apse = nx * nx + (ny + 0.75) * (ny + 0.75) <= 0.35 * 0.35;
+        return nave || transept || apse;
+    },
+
+    // Annulus (arena, tower ring, circular keep)
+    ring: (nx, ny) => {
+        const d = nx * nx + ny * ny;
+        return d <= 1 && d >= 0.3;
+    },
+
+    // Bow (pointed) at the top, straight midship, flat stern (transom) at the bottom
+    ship: (nx, ny) => {
+        if (ny < -1 || ny > 1) return false;
+        if (ny < -0.4) {
+            const t = (ny + 0.4) / -0.6; // 0 at the shoulder, 1 at the bow tip
+            return Math.abs(nx) <= 1 - t * t;
+        }
+        if (ny > 0.75) return Math.abs(nx) <= 0.85;
+        return Math.abs(nx) <= 1;
+    }
+};
+
+/**
+ * Picks a hull shape from the narrative description when the config doesn't name one.
+ */
+export const inferHullShape = (description: string): HullShape => {
+    const d = description.toLowerCase();
+    if (/ship|boat|vessel|galleon|frigate|barge|deck/.test(d)) return 'ship';
+    if (/cathedral|church|chapel|abbey|basilica/.test(d)) return 'cross';
+    if (/arena|colosseum|ring|coliseum|pit/.test(d)) return 'ring';
+    if (/tower|lighthouse|keep|octagon/.test(d)) return 'octagon';
+    return 'ellipse';
+};
@@ -0,0 +1,168 @@
+import { MapData, RoomData, TileData, getLevelView, getFootprint, CELL_BLOCKED, CELL_OPEN, CELL_DIFFICULT } from '../types/MapData';
+import { FurnitureCatalog } from './FurnitureCatalog';
+
+/**
+ * Post-generation checks that run on the finished MapData,
+ * independent of which generator produced it.
+ */
+export class MapAnalyzer {
+    /**
+     * Builds a walkability grid: floor tiles are walkable unless a wall sits on them.
+     */
+    static buildWalkableGrid(mapData: MapData): boolean[][] {
+        const walkable: boolean[][] = Array(mapData.height).fill(0).map(() => Array(mapData.width).fill(false));
+        const walls: boolean[][] = Array(mapData.height).fill(0).map(() => Array(mapData.width).fill(false));
+
+        mapData.tiles.forEach(tile => {
+            if (!this.inBounds(mapData, tile.x, tile.y)) return;
+            if (tile.layer === 'floor') walkable[tile.y][tile.x] = true;
+            if (tile.layer === 'wall') walls[tile.y][tile.x] = true;
+        });
+
+        for (let y = 0; y < mapData.height; y++) {
+            for (let x = 0; x < mapData.width; x++) {
+                if (walls[y][x]) walkable[y][x] = false;
+            }
+        }
+        return walkable;
+    }
+
+    /**
+     * Marks every cell covered by blocking furniture (whole footprints). Doors, stairs and
+     * walkable catalog items like rugs don't block.
+     */
+    static buildOccupiedGrid(mapData: MapData): boolean[][] {
+        const occupied: boolean[][] = Array(mapData.height).fill(0).map(() => Array(mapData.width).fill(false));
+
+        mapData.tiles.forEach(tile => {
+            if (!this.isBlocking(tile)) return;
+            getFootprint(tile).forEach(({ x, y }) => {
+                if (this.inBounds(mapData, x, y)) occupied[y][x] = true;
+            });
+        });
+        return occupied;
+    }
+
+    /**
+     * Movement cost grid for a single level: walls and furniture footprints block,
+     * water and mud are difficult terrain, any other floor (doors included) is open.
+     */
+    static buildCostGrid(mapData: MapData): number[][] {
+        const walkable = this.buildWalkableGrid(mapData);
+        const occupied = this.buildOccupiedGrid(mapData);
+        const costs: number[][] = walkable.map(row => row.map(w => (w ? CELL_OPEN : CELL_BLOCKED)));
+
+        mapData.tiles.forEach(tile => {
+            if (tile.layer !== 'floor' || !this.inBounds(mapData, tile.x, tile.y)) return;
+            if (costs[tile.y][tile.x] === CELL_OPEN && /water|mud|swamp/i.test(tile.sprite)) {
+                costs[tile.y][tile.x] = CELL_DIFFICULT;
+            }
+        });
+
+        for (let y = 0; y < mapData.height; y++) {
+            for (let x = 0; x < mapData.width; x++) {
+                if (occupied[y][x]) costs[y][x] = CELL_BLOCKED;
+            }
+        }
+        return costs;
+    }
+
+    /**
+     * Cost grids for every level, keyed by level (MapData.costGrids).
+     */
+    static buildCostGrids(mapData: MapData): Record<number, number[][]> {
+        const grids: Record<number, number[][]> = {};
+        (mapData.levels ?? [0]).forEach(level => {
+            grids[level] = this.buildCostGrid(getLevelView(mapData, level));
+        });
+        return grids;
+    }
+
+    static isBlocking(tile: TileData): boolean {
+        if (tile.layer !== 'furniture' || /door|stair|reed/i.test(tile.sprite)) return false;
+        return !FurnitureCatalog.resolve(tile.sprite)?.walkable;
+    }
+
+    /**
+     * Picks the room players enter from. Falls back to the first ground-level room.
+     */
+    static findEntranceRoom(mapData: MapData): RoomData | undefined {
+        return mapData.rooms.find(r =>
+            /entrance|entry|foyer|lobby/i.test(r.type) || /entrance|entry|foyer|lobby/i.test(r.name || '')
+        ) || mapData.rooms.find(r => (r.level ?? 0) === 0) || mapData.rooms[0];
+    }
+
+    /**
+     * Flood-fills walkable tiles from the entrance room and returns the IDs of rooms never reached.
+     * Stairs carry the fill between levels.
+     */
+    static findUnreachableRooms(mapData: MapData): string[] {
+        const entrance = this.findEntranceRoom(mapData);
+        if (!entrance) return [];
+
+        const levels = mapData.levels ?? [0];
+        const walkable = new Map<number, boolean[][]>();
+        const visited = new Map<number, boolean[][]>();
+        levels.forEach(level => {
+            walkable.set(level, this.buildWalkableGrid(getLevelView(mapData, level)));
+            visited.set(level, Array(mapData.height).fill(0).map(() => Array(mapData.width).fill(false)));
+        });
+
+        const queue: { x: number, y: number, level: number }[] = [];
+        const visit = (x: number, y: number, level: number) => {
+            const levelVisited = visited.get(level);
+            const levelWalkable = walkable.get(level);
+            if (!levelVisited || !levelWalkable || !this.inBounds(mapData, x, y)) return;
+            if (levelVisited[y][x] || !levelWalkable[y][x]) return;
+            levelVisited[y][x] = true;
+            queue.push({ x, y, level });
+        };
+
+        // Seed the fill with every walkable tile of the entrance room
+        const entranceLevel = entrance.level ?? 0;
+        this.forEachRoomTile(mapData, entrance, (x, y) => visit(x, y, entranceLevel));
+
+        const dirs = [[0,-1], [0,1], [-1,0], [1,0]];
+        let head = 0;
+        while (head < queue.length) {
+            const { x, y, level } = queue[head++];
+            for (const [dx, dy] of dirs) {
+                visit(x + dx, y + dy, level);
+            }
+            mapData.stairs?.forEach(stair => {
+                if (stair.x !== x || stair.y !== y) return;
+                if (stair.lower === level) visit(x, y, stair.upper);
+                if (stair.upper === level) visit(x, y, stair.lower);
+            });
+        }
+
+        return mapData.rooms
+            .filter(room => {
+                const levelVisited = visited.get(room.level ?? 0);
+                let reached = false;
+                this.forEachRoomTile(mapData, room, (x, y) => {
+                    if (levelVisited?.[y][x]) reached = true;
+                });
+                return !reached;
+            })
+            .map(room => room.id);
+    }
+
+    private static forEachRoomTile(mapData: MapData, room: RoomData, fn: (x: number, y: number) => void) {
+        if (room.tiles) {
+            room.tiles.forEach(t => {
+                if (this.inBounds(mapData, t.x, t.y)) fn(t.x, t.y);
+            });
+            return;
+        }
+        for (let y = room.y; y < room.y + room.height; y++) {
+            for (let x = room.x; x < room.x + room.width; x++) {
+                if (this.inBounds(mapData, x, y)) fn(x, y);
+            }
+        }
+    }
+
+    private static inBounds(mapData: MapData, x: number, y: number): boolean {
+        return x >= 0 && y >= 0 && x < mapData.width && y < mapData.height;
+    }
+}
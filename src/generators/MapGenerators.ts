@@ -1,19 +1,30 @@
 import { MapConfig } from '../types/MapConfig';
 import { MapData } from '../types/MapData';
+import { GenerationReport } from '../types/GenerationReport';
 import { StructuredGenerator } from './StructuredGenerator';
 import { OrganicGenerator } from './OrganicGenerator';
 import { GeometricGenerator } from './GeometricGenerator';
+import { DungeonGenerator } from './DungeonGenerator';
+import { SeededRandom } from './SeededRandom';
+import { Biome } from './Biomes';
+import { ProgressCallback } from '../types/Progress';
 
 export interface IMapGenerator {
-  generate(config: MapConfig): MapData;
+  generate(config: MapConfig, rng: SeededRandom, report: GenerationReport, progress?: ProgressCallback): MapData;
+}
+
+// Per-generator tables, the defaults are used for anything left out
+export interface GeneratorOptions {
+  biomes?: Biome[]; // 'organic' only, see Biomes.ts
 }
 
 export class GeneratorFactory {
-  static getGenerator(type: string): IMapGenerator {
+  static getGenerator(type: string, options: GeneratorOptions = {}): IMapGenerator {
     switch (type) {
       case 'structured': return new StructuredGenerator();
-      case 'organic': return new OrganicGenerator();
+      case 'organic': return new OrganicGenerator(options.biomes);
       case 'geometric': return new GeometricGenerator();
+      case 'dungeon': return new DungeonGenerator();
       default: return new StructuredGenerator();
     }
   }
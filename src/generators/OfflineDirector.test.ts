@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OfflineDirector } from './OfflineDirector';
+import { validateMapConfig } from '../types/MapConfigSchema';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('OfflineDirector', () => {
+    it('is deterministic per prompt', () => {
+        expect(OfflineDirector.generateMapConfig('A haunted manor')).toEqual(OfflineDirector.generateMapConfig('A haunted manor'));
+        expect(OfflineDirector.generateMapConfig('A haunted manor').seed).not.toBe(OfflineDirector.generateMapConfig('A haunted inn').seed);
+    });
+
+    it('picks the archetype from whole-word keywords', () => {
+        expect(OfflineDirector.generateMapConfig('a ship at sea')).toMatchObject({ type: 'geometric', shape: 'ship' });
+        expect(OfflineDirector.generateMapConfig('small cottage')).toMatchObject({ type: 'structured', layout: 'cluster' });
+        // 'gold' is not 'old', 'inner' is not 'inn': falls back to the dungeon
+        expect(OfflineDirector.generateMapConfig('inner gold')).toMatchObject({ type: 'dungeon', tone: 'Normal' });
+    });
+
+    it('adds levels, tone and light sources from the prompt', () => {
+        const config = OfflineDirector.generateMapConfig('dark mansion with a cellar');
+        expect(config.tone).toBe('Night');
+        expect(config.rooms.find(r => r.level === -1)?.connections).toContain(config.rooms.find(r => r.type === 'corridor')?.id);
+        expect(config.rooms.filter(r => r.type !== 'corridor').every(r => r.furniture.some(f => /fire|torch|candles|lamp/.test(f)))).toBe(true);
+    });
+
+    it('produces configs the schema accepts unchanged', () => {
+        for (const prompt of ['large crypt', 'forest glade', 'grand cathedral', 'school', 'modern house', 'hut']) {
+            const { config, fixes } = validateMapConfig(OfflineDirector.generateMapConfig(prompt));
+            expect(config).not.toBeNull();
+            expect(fixes).toEqual([]);
+        }
+    });
+
+    it('applies edit instructions to a copy, keeping room ids', () => {
+        const current = OfflineDirector.generateMapConfig('small school');
+        const { config, summary } = OfflineDirector.refineMapConfig(current, 'Add a library next to the foyer, remove the kitchen, then make it night');
+
+        const foyer = config.rooms.find(r => r.name === 'Foyer')!;
+        const library = config.rooms.find(r => r.name === 'Library' && !current.rooms.some(c => c.id === r.id))!;
+        expect(library.connections).toEqual([foyer.id]);
+        expect(config.rooms.some(r => r.type === 'kitchen')).toBe(false);
+        expect(config.rooms.every(r => r.connections.every(id => config.rooms.some(other => other.id === id)))).toBe(true);
+        expect(config.tone).toBe('Night');
+        expect(summary).toContain('removed Kitchen');
+
+        expect(current.rooms.some(r => r.type === 'kitchen')).toBe(true);
+        expect(current.rooms.map(r => r.id)).toEqual(expect.arrayContaining(config.rooms.filter(r => r !== library).map(r => r.id)));
+    });
+
+    it('refuses instructions it cannot follow', () => {
+        expect(() => OfflineDirector.refineMapConfig(OfflineDirector.generateMapConfig('hut'), 'sing a song')).toThrow("Can't follow");
+    });
+});
@@ -0,0 +1,325 @@
+import type { MapConfig, RoomConfig, HullShape, ToneType } from '../types/MapConfig.js';
+
+// Keyword-driven director: no network, no model. Turns prompt keywords into a MapConfig
+// following the same SPINE / HUB / CLUSTER rules the AI is given.
+// Type-only imports with `.js` paths: the API loads this file as plain ESM too.
+
+type Size = 'small' | 'medium' | 'large';
+
+interface Archetype {
+    label: string;
+    keywords: RegExp;
+    build: (size: Size, prompt: string) => Pick<MapConfig, 'type' | 'rooms'> & Partial<MapConfig>;
+}
+
+// [name, type, width, height, furniture]
+type RoomSpec = [string, string, number, number, string[]];
+
+const MAP_SIZE: Record<Size, number> = { small: 32, medium: 44, large: 56 };
+const EXTRA_ROOMS: Record<Size, number> = { small: 0, medium: 1, large: 3 };
+
+// Builds rooms r1..rN from specs
+const makeRooms = (specs: RoomSpec[]): RoomConfig[] =>
+    specs.map(([name, type, width, height, furniture], i) => ({ id: `r${i + 1}`, name, type, width, height, connections: [], furniture: [...furniture] }));
+
+const link = (a: RoomConfig, b: RoomConfig) => {
+    if (!a.connections.includes(b.id)) a.connections.push(b.id);
+    if (!b.connections.includes(a.id)) b.connections.push(a.id);
+};
+
+// One anchor, everything else attached to it (SPINE corridor or HUB living room)
+const star = (anchor: RoomConfig, rooms: RoomConfig[]) => rooms.forEach(r => { if (r !== anchor) link(anchor, r); });
+
+// First match wins. Keywords match whole words (plural allowed): 'old' is not 'gold', 'inn' is not 'inner'
+const ARCHETYPES: Archetype[] = [
+    {
+        label: 'dungeon',
+        keywords: /\b(?:dungeon|crypt|tomb|lair|sewer|prison|catacomb|vault|labyrinth)s?\b/,
+        build: (size, prompt) => {
+            const burial = /\b(?:crypt|tomb|catacomb)s?\b/.test(prompt);
+            const rooms = makeRooms([
+                ['Entrance', 'entrance', 6, 6, ['torch']],
+                ['Guard Room', 'guard', 7, 6, ['table', 'chair', 'weapon_rack']],
+                [burial ? 'Ossuary' : 'Storeroom', 'storage', 6, 5, burial ? ['coffin', 'coffin'] : ['barrel', 'barrel', 'chest']],
+                ['Shrine', 'shrine', 6, 6, ['altar', 'candles']],
+                ...(size !== 'small' ? [['Cells', 'prison', 8, 5, ['bench']] as RoomSpec] : []),
+                ...(size === 'large' ? [['Armoury', 'armoury', 6, 6, ['weapon_rack', 'chest']] as RoomSpec] : []),
+                [burial ? 'Burial Chamber' : 'Lair', 'boss', 10, 8, burial ? ['coffin', 'statue', 'gold'] : ['gold', 'chest', 'fire']]
+            ]);
+            // A chain with one loop, so there is more than one way through
+            rooms.slice(1).forEach((room, i) => link(rooms[i], room));
+            link(rooms[1], rooms[3]);
+            return { type: 'dungeon', rooms };
+        }
+    },
+    {
+        label: 'cave',
+        keywords: /\b(?:cave|cavern|grotto|forest|woods|glade|swamp|mine|canyon|jungle)s?\b/,
+        build: size => {
+            const rooms = makeRooms([
+                ['Cave Mouth', 'entrance', 8, 6, []],
+                ['Camp', 'camp', 8, 8, ['fire', 'barrel']],
+                ['Deep Chamber', 'chamber', 10, 8, ['chest', 'gold']],
+                ...Array.from({ length: EXTRA_ROOMS[size] }, (_, i) => [`Hollow ${i + 1}`, 'chamber', 6, 6, []] as RoomSpec)
+            ]);
+            rooms.slice(1).forEach((room, i) => link(rooms[i], room));
+            return { type: 'organic', rooms };
+        }
+    },
+    {
+        label: 'ship / temple',
+        keywords: /\b(?:ship|boat|galleon|vessel|cathedral|church|chapel|arena|colosseum|tower|keep|lighthouse|temple)s?\b/,
+        build: (size, prompt) => {
+            const shape: HullShape =
+                /\b(?:ship|boat|galleon|vessel)s?\b/.test(prompt) ? 'ship' :
+                /\b(?:cathedral|church|chapel)s?\b/.test(prompt) ? 'cross' :
+                /\b(?:arena|colosseum)s?\b/.test(prompt) ? 'ring' :
+                /\b(?:tower|keep|lighthouse)s?\b/.test(prompt) ? 'octagon' : 'ellipse';
+            const axis: Record<HullShape, RoomSpec> = {
+                ship: ['Bridge', 'bridge', 6, 4, ['table']],
+                cross: ['Altar', 'altar', 6, 6, ['altar', 'candles']],
+                ring: ['Arena Floor', 'arena', 10, 10, []],
+                octagon: ['Stair Hall', 'hall', 6, 6, ['torch']],
+                ellipse: ['Sanctum', 'sanctum', 6, 6, ['altar', 'statue']]
+            };
+            // Every side room is mirrored left/right by the generator
+            const sides: RoomSpec[] = shape === 'ship'
+                ? [['Cabin', 'bedroom', 5, 4, ['bed', 'chest']], ['Cargo Hold', 'storage', 6, 4, ['barrel', 'barrel']]]
+                : [['Chapel', 'chapel', 5, 5, ['bench', 'candles']], ['Vestry', 'storage', 4, 4, ['wardrobe']]];
+            const rooms = makeRooms([axis[shape], ...sides.slice(0, size === 'small' ? 1 : 2)]);
+            star(rooms[0], rooms);
+            return { type: 'geometric', shape, rooms };
+        }
+    },
+    {
+        label: 'mansion',
+        keywords: /\b(?:mansion|manor|school|academy|office|hotel|inn|boarding|hospital|barracks|palace)s?\b/,
+        build: size => {
+            // SPINE: one long corridor, every room on it
+            const rooms = makeRooms([
+                ['Foyer', 'entrance', 8, 6, ['rug', 'plant']],
+                ['Main Corridor', 'corridor', 20, 2, []],
+                ['Dining Room', 'dining', 8, 6, ['dining_set']],
+                ['Library', 'library', 6, 6, ['bookshelf', 'bookshelf', 'chair']],
+                ['Kitchen', 'kitchen', 6, 5, ['kitchen_set']],
+                ...(size !== 'small' ? [['Bedroom', 'bedroom', 6, 5, ['bedroom_set']] as RoomSpec] : []),
+                ...(size === 'large' ? [['Study', 'study', 5, 5, ['table', 'chair', 'lamp']] as RoomSpec, ['Guest Room', 'bedroom', 5, 5, ['bed', 'chest']] as RoomSpec] : [])
+            ]);
+            star(rooms[1], rooms);
+            return { type: 'structured', layout: 'spine', rooms };
+        }
+    },
+    {
+        label: 'cabin',
+        keywords: /\b(?:cabin|hut|shack|cottage|shed)s?\b/,
+        build: () => {
+            // CLUSTER: one big room and small partitions
+            const rooms = makeRooms([
+                ['Main Room', 'common', 10, 8, ['fire', 'table', 'chair']],
+                ['Sleeping Nook', 'bedroom', 4, 4, ['bed']],
+                ['Pantry', 'storage', 3, 4, ['barrel']]
+            ]);
+            star(rooms[0], rooms);
+            return { type: 'structured', layout: 'cluster', rooms };
+        }
+    },
+    {
+        label: 'house',
+        keywords: /\b(?:house|home|apartment|flat|villa|modern|loft)s?\b/,
+        build: size => {
+            // HUB: the living room opens onto everything
+            const rooms = makeRooms([
+                ['Living Room', 'living', 10, 8, ['living_set']],
+                ['Kitchen', 'kitchen', 6, 5, ['kitchen_set']],
+                ['Bedroom', 'bedroom', 6, 5, ['bedroom_set']],
+                ['Bathroom', 'bathroom', 4, 4, ['bathtub', 'toilet', 'sink']],
+                ...(size !== 'small' ? [['Study', 'study', 5, 5, ['table', 'chair', 'lamp']] as RoomSpec] : [])
+            ]);
+            star(rooms[0], rooms);
+            return { type: 'structured', layout: 'hub', rooms };
+        }
+    }
+];
+
+// Unknown prompts get a classic dungeon
+const FALLBACK = ARCHETYPES[0];
+
+const TONE_KEYWORDS: [RegExp, ToneType][] = [
+    [/\b(?:toxic|poison|plague|acid|radioactive|alien)s?\b/, 'Toxic'],
+    [/\b(?:night|dark|midnight|moonlit|shadow)s?\b/, 'Night'],
+    [/\b(?:ancient|old|flashback|memory|sepia|ruined)s?\b/, 'Sepia']
+];
+
+// Rooms the edit mode knows how to furnish: [keywords, type, width, height, furniture, level offset]
+const ROOM_TEMPLATES: [RegExp, string, number, number, string[], number][] = [
+    [/\blibrar(?:y|ies)\b/, 'library', 6, 6, ['bookshelf', 'bookshelf', 'chair'], 0],
+    [/\bkitchens?\b/, 'kitchen', 6, 5, ['kitchen_set'], 0],
+    [/\b(?:bedroom|guest room)s?\b/, 'bedroom', 6, 5, ['bedroom_set'], 0],
+    [/\b(?:bathroom|washroom)s?\b/, 'bathroom', 4, 4, ['bathtub', 'toilet', 'sink'], 0],
+    [/\bdining\b/, 'dining', 8, 6, ['dining_set'], 0],
+    [/\b(?:study|studies|office)\b/, 'study', 5, 5, ['table', 'chair', 'lamp'], 0],
+    [/\b(?:storage|storeroom|pantry|closet)s?\b/, 'storage', 4, 4, ['barrel', 'chest'], 0],
+    [/\b(?:shrine|chapel)s?\b/, 'shrine', 6, 6, ['altar', 'candles'], 0],
+    [/\b(?:armou?ry|armories)\b/, 'armoury', 6, 6, ['weapon_rack', 'chest'], 0],
+    [/\b(?:treasury|vault)s?\b/, 'treasury', 5, 5, ['chest', 'gold', 'gold'], 0],
+    [/\b(?:cellar|basement)s?\b/, 'storage', 6, 6, ['barrel', 'barrel'], -1],
+    [/\battics?\b/, 'storage', 6, 6, ['chest', 'wardrobe'], 1]
+];
+
+const titleCase = (text: string) => text.replace(/\b[a-z]/g, c => c.toUpperCase());
+
+// FNV-1a, so the same prompt always gives the same map
+const hashPrompt = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+export class OfflineDirector {
+    /**
+     * Deterministic: the same prompt always produces the same config (and seed).
+     */
+    static generateMapConfig(userPrompt: string): MapConfig {
+        const prompt = userPrompt.toLowerCase();
+        const archetype = ARCHETYPES.find(a => a.keywords.test(prompt)) ?? FALLBACK;
+        const size: Size = /\b(?:small|tiny|little|cramped)s?\b/.test(prompt) ? 'small' : /\b(?:large|big|huge|grand|vast)s?\b/.test(prompt) ? 'large' : 'medium';
+        const tone = TONE_KEYWORDS.find(([keywords]) => keywords.test(prompt))?.[1] ?? 'Normal';
+
+        const built = archetype.build(size, prompt);
+        const rooms = built.rooms;
+
+        // Levels ('structured' only): the staircase goes from the entrance / corridor, never a side room
+        if (built.type === 'structured' && built.layout !== 'cluster') {
+            const stairRoom = rooms.find(r => r.type === 'corridor') ?? rooms[0];
+            const addLevel = (name: string, type: string, level: number, furniture: string[]) => {
+                const room: RoomConfig = { id: `r${rooms.length + 1}`, name, type, width: 6, height: 6, level, connections: [], furniture };
+                rooms.push(room);
+                link(stairRoom, room);
+            };
+            if (/\b(?:basement|cellar)s?\b/.test(prompt)) addLevel('Cellar', 'storage', -1, ['barrel', 'barrel', 'chest']);
+            if (/\b(?:attic|upstairs|upper floor|second floor)s?\b/.test(prompt)) addLevel('Attic', 'storage', 1, ['chest', 'wardrobe']);
+        }
+
+        // Dark maps: light the rooms the party will use
+        if (tone === 'Night') {
+            rooms.forEach(r => {
+                if (r.type !== 'corridor' && !r.furniture.some(f => /\b(?:fire|torch|candles|lamp)s?\b/.test(f))) r.furniture.push('torch');
+            });
+        }
+
+        const side = MAP_SIZE[built.layout === 'cluster' ? 'small' : size];
+        console.log(`[OfflineDirector] '${userPrompt}' -> ${archetype.label} (${size}, ${tone})`);
+        return {
+            ...built,
+            tone,
+            width: side,
+            height: side,
+            description: `${size[0].toUpperCase()}${size.slice(1)} ${archetype.label} (offline director)`,
+            seed: hashPrompt(prompt)
+        };
+    }
+
+    /**
+     * Edit mode: applies simple instructions ("add a library next to the foyer", "remove the pantry",
+     * "put a chest in the cellar", "make the kitchen bigger", "make it night") to a copy of the config.
+     * Existing room ids never change. Throws when it understood nothing.
+     */
+    static refineMapConfig(current: MapConfig, instruction: string): { config: MapConfig; summary: string } {
+        const config: MapConfig = JSON.parse(JSON.stringify(current));
+        const rooms = config.rooms;
+        const done: string[] = [];
+
+        // Longest name first, so "main corridor" wins over "corridor"
+        const findRoom = (words: string) =>
+            [...rooms].sort((a, b) => b.name.length - a.name.length).find(r => words.includes(r.name.toLowerCase())) ??
+            rooms.find(r => new RegExp(`\\b${r.type.toLowerCase()}\\b`).test(words));
+
+        const nextId = () => {
+            let n = rooms.length + 1;
+            while (rooms.some(r => r.id === `r${n}`)) n++;
+            return `r${n}`;
+        };
+
+        // New room, connected to `near` (default: the corridor or first room)
+        const addRoom = (name: string, near?: string) => {
+            const anchor = (near && findRoom(near)) || rooms.find(r => r.type === 'corridor') || rooms[0];
+            const template = ROOM_TEMPLATES.find(([keywords]) => keywords.test(name));
+            const [, type, width, height, furniture, levelOffset] = template ?? [null, name.split(' ').pop()!, 6, 5, [], 0];
+            const room: RoomConfig = { id: nextId(), name: titleCase(name), type, width, height, connections: [], furniture: [...furniture] };
+            if (config.type === 'structured' && (anchor?.level || levelOffset)) room.level = (anchor?.level ?? 0) + levelOffset;
+            rooms.push(room);
+            if (anchor) link(anchor, room);
+            done.push(`added ${room.name}${anchor ? ` next to ${anchor.name}` : ''}`);
+        };
+        const ADD = /\badd\s+(?:an?\s+|another\s+|a second\s+)?([a-z ]+?)(?:\s+room)?/;
+
+        const clauses = instruction.toLowerCase().replace(/[.!?]+$/, '').split(/\s*(?:,|;|\bthen\b|\band also\b)\s*/);
+        clauses.forEach(clause => {
+            let match: RegExpMatchArray | null;
+
+            // 1. New room next to another: "add a library next to the foyer"
+            if ((match = clause.match(new RegExp(`${ADD.source}\\s+(?:next to|beside|near|off|by|connected to|behind)\\s+(?:the\\s+)?(.+)$`)))) {
+                addRoom(match[1].trim(), match[2]);
+                return;
+            }
+
+            // 2. Furniture into an existing room: "put a chest in the cellar"
+            if ((match = clause.match(/\b(?:add|put|place)\s+(?:an?\s+|another\s+|some\s+)?([a-z_ ]+?)\s+(?:in|into|to)\s+(?:the\s+)?(.+)$/))) {
+                const room = findRoom(match[2]);
+                if (room) {
+                    const item = match[1].trim().replace(/\s+/g, '_').replace(/(?<!s)s$/, '');
+                    room.furniture.push(item);
+                    done.push(`${item} in ${room.name}`);
+                    return;
+                }
+            }
+
+            // 3. New room anywhere: "add a pantry"
+            if ((match = clause.match(new RegExp(`${ADD.source}$`)))) {
+                addRoom(match[1].trim());
+                return;
+            }
+
+            // 4. Remove a room: "remove the pantry"
+            if ((match = clause.match(/\b(?:remove|delete|drop)\s+(?:the\s+)?(.+)$/))) {
+                const room = findRoom(match[1]);
+                if (room && rooms.length > 1) {
+                    rooms.splice(rooms.indexOf(room), 1);
+                    rooms.forEach(r => { r.connections = r.connections.filter(id => id !== room.id); });
+                    done.push(`removed ${room.name}`);
+                    return;
+                }
+            }
+
+            // 5. Sizes: "make the kitchen bigger", "make the map smaller"
+            if ((match = clause.match(/\b(bigger|larger|smaller)\b/))) {
+                const step = match[1] === 'smaller' ? -1 : 1;
+                const room = findRoom(clause);
+                if (room) {
+                    room.width = Math.max(3, (room.width ?? 6) + step * 2);
+                    room.height = Math.max(3, (room.height ?? 5) + step * 2);
+                    done.push(`${room.name} ${match[1]}`);
+                } else {
+                    config.width = Math.min(60, Math.max(30, config.width + step * 8));
+                    config.height = Math.min(60, Math.max(30, config.height + step * 8));
+                    done.push(`map ${match[1]}`);
+                }
+                return;
+            }
+
+            // 6. Tone: "make it night", "back to daylight"
+            const tone = /\b(?:normal|day|daylight|daytime)\b/.test(clause) ? 'Normal' : TONE_KEYWORDS.find(([keywords]) => keywords.test(clause))?.[1];
+            if (tone) {
+                config.tone = tone;
+                done.push(`tone ${tone}`);
+            }
+        });
+
+        if (done.length === 0) throw new Error(`[OfflineDirector] Can't follow '${instruction}' offline`);
+        console.log(`[OfflineDirector] Edit '${instruction}' -> ${done.join('; ')}`);
+        return { config, summary: `${done.join('; ')} (offline director)` };
+    }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { OrganicGenerator } from './OrganicGenerator';
+import { SeededRandom } from './SeededRandom';
+import { MapAnalyzer } from './MapAnalyzer';
+import { GeneratorFactory } from './MapGenerators';
+import { Biome } from './Biomes';
+import { createEmptyReport } from '../types/GenerationReport';
+import { MapConfig, RoomConfig } from '../types/MapConfig';
+import { MapData } from '../types/MapData';
+
+const cave = (rooms: RoomConfig[], size = 50): MapConfig =>
+    ({ type: 'organic', tone: 'Normal', width: size, height: size, description: 'Cave', rooms });
+
+const chain = (count: number, size: number): RoomConfig[] => Array.from({ length: count }, (_, i) => ({
+    id: `c${i}`, name: `Chamber ${i}`, type: 'cave', width: size, height: size, furniture: [],
+    connections: i > 0 ? [`c${i - 1}`] : []
+}));
+
+// Number of 4-connected floor regions
+const countRegions = (mapData: MapData): number => {
+    const floor = new Set(mapData.tiles.filter(t => t.layer === 'floor').map(t => `${t.x},${t.y}`));
+    let regions = 0;
+    for (const start of floor) {
+        regions++;
+        const stack = [start];
+        floor.delete(start);
+        while (stack.length > 0) {
+            const [x, y] = stack.pop()!.split(',').map(Number);
+            for (const key of [`${x + 1},${y}`, `${x - 1},${y}`, `${x},${y + 1}`, `${x},${y - 1}`]) {
+                if (floor.delete(key)) stack.push(key);
+            }
+        }
+    }
+    return regions;
+};
+
+describe('OrganicGenerator', () => {
+    for (const seed of [1, 7, 42, 99, 2024]) {
+        it(`joins every pocket and chamber into one cave (seed ${seed})`, () => {
+            const report = createEmptyReport();
+            const mapData = new OrganicGenerator().generate(cave(chain(5, 7)), new SeededRandom(seed), report);
+
+            expect(countRegions(mapData)).toBe(1);
+            expect(MapAnalyzer.findUnreachableRooms(mapData)).toEqual([]);
+            expect(mapData.rooms).toHaveLength(5 - report.droppedRooms.length);
+        });
+    }
+
+    it('gives every chamber an irregular tile set inside its bounds', () => {
+        const mapData = new OrganicGenerator().generate(cave(chain(3, 8)), new SeededRandom(5), createEmptyReport());
+        mapData.rooms.forEach(room => {
+            expect(room.tiles!.length).toBeGreaterThan(0);
+            expect(room.tiles!.length).toBeLessThan(room.width * room.height);
+            room.tiles!.forEach(t => {
+                expect(t.x >= room.x && t.x < room.x + room.width && t.y >= room.y && t.y < room.y + room.height).toBe(true);
+            });
+        });
+    });
+
+    it('drops chambers with no free space instead of emitting empty rooms', () => {
+        const report = createEmptyReport();
+        const mapData = new OrganicGenerator().generate(cave(chain(40, 8), 30), new SeededRandom(5), report);
+
+        expect(report.droppedRooms.length).toBeGreaterThan(0);
+        expect(mapData.rooms.length + report.droppedRooms.length).toBe(40);
+        mapData.rooms.forEach(room => {
+            expect(Number.isFinite(room.x) && Number.isFinite(room.y) && room.width > 0 && room.height > 0).toBe(true);
+        });
+        expect(countRegions(mapData)).toBe(1);
+    });
+
+    it('paints the cave with a biome table passed through the factory', () => {
+        const ice: Biome[] = [{ id: 'ice', sprite: 'floor_ice', elevation: [0, 1.01], moisture: [0, 1.01], decorations: [{ sprite: 'crystal', density: 0.05 }] }];
+        const mapData = GeneratorFactory.getGenerator('organic', { biomes: ice })
+            .generate(cave(chain(3, 8)), new SeededRandom(5), createEmptyReport());
+
+        const floors = mapData.tiles.filter(t => t.layer === 'floor');
+        expect(floors.length).toBeGreaterThan(0);
+        expect(floors.every(t => t.sprite === 'floor_ice')).toBe(true);
+        const decorations = new Set(mapData.tiles.filter(t => t.layer === 'furniture').map(t => t.sprite));
+        expect(decorations.has('crystal')).toBe(true);
+        expect(decorations.has('tree')).toBe(false);
+    });
+
+    it('refuses an empty biome table', () => {
+        expect(() => GeneratorFactory.getGenerator('organic', { biomes: [] })).toThrow(/at least one biome/);
+    });
+});
@@ -1,11 +1,26 @@
-import { MapConfig } from '../types/MapConfig';
+import { MapConfig, RoomConfig } from '../types/MapConfig';
 import { MapData } from '../types/MapData';
+import { GenerationReport, reportIgnoredLevels } from '../types/GenerationReport';
+import { ProgressCallback, NO_PROGRESS } from '../types/Progress';
 import { IMapGenerator } from './MapGenerators';
 import { ConstraintSolver } from './ConstraintSolver';
+import { SeededRandom } from './SeededRandom';
+import { SimplexNoise } from './SimplexNoise';
+import { Biome, DEFAULT_BIOMES } from './Biomes';
+
+// Noise scale: one noise unit spans this many tiles (lower octave)
+const ELEVATION_SCALE = 24;
+const MOISTURE_SCALE = 32;
 
 export class OrganicGenerator implements IMapGenerator {
-    generate(config: MapConfig): MapData {
+    constructor(private biomes: Biome[] = DEFAULT_BIOMES) {
+        // pickBiome falls back to the last entry, an empty table has none
+        if (biomes.length === 0) throw new Error('OrganicGenerator needs at least one biome');
+    }
+
+    generate(config: MapConfig, rng: SeededRandom, report: GenerationReport, progress: ProgressCallback = NO_PROGRESS): MapData {
         console.log(`[OrganicGenerator] Growing Cellular Automata...`);
+        reportIgnoredLevels(config, report); // Single level
         
         const width = config.width;
         const height = config.height;
@@ -13,11 +28,12 @@ export class OrganicGenerator implements IMapGenerator {
             width,
             height,
             tiles: [],
-            rooms: []
+            rooms: [],
+            seed: rng.seed
         };
 
         // 1. Initialize Random Grid (45% alive)
-        let grid: number[][] = Array(height).fill(0).map(() => Array(width).fill(0).map(() => Math.random() < 0.45 ? 1 : 0));
+        let grid: number[][] = Array(height).fill(0).map(() => Array(width).fill(0).map(() => rng.chance(0.45) ? 1 : 0));
 
         // 2. Simulation Step (Smooth)
         const iterations = 4;
@@ -25,53 +41,68 @@ export class OrganicGenerator implements IMapGenerator {
             grid = this.doSimulationStep(grid);
         }
 
-        // 2.5 Carve Defined Rooms (Ensure Symbolic requirements are met)
+        progress({ phase: 'strategy', message: `Cellular automata, ${iterations} smoothing passes` });
+
+        // 2.5 Carve Defined Rooms as irregular chambers (Ensure Symbolic requirements are met)
+        // ownerGrid stores the index (in mapData.rooms) of the chamber owning each tile (-1 = plain cave)
+        const ownerGrid: number[][] = Array(height).fill(0).map(() => Array(width).fill(-1));
         config.rooms.forEach(room => {
-             // Random position (padding of 4)
-             const rw = 8;
-             const rh = 8;
-             const rx = Math.floor(Math.random() * (width - rw - 8)) + 4;
-             const ry = Math.floor(Math.random() * (height - rh - 8)) + 4;
-             
-             for(let y = ry; y < ry + rh; y++) {
-                 for(let x = rx; x < rx + rw; x++) {
-                     if (y < height && x < width) {
-                        grid[y][x] = 1;
-                     }
-                 }
-             }
-             
-             // Register room for debug/gameplay
-             mapData.rooms.push({
-                 id: room.id,
-                 x: rx, y: ry, width: rw, height: rh, type: room.type
-             });
+            const tiles = this.carveChamber(room, mapData.rooms.length, grid, ownerGrid, rng);
+            if (tiles.length === 0) {
+                // Every spot was already taken by earlier chambers
+                report.droppedRooms.push({ id: room.id, name: room.name, reason: 'No free cave space left for the chamber' });
+                return;
+            }
+
+            const xs = tiles.map(t => t.x);
+            const ys = tiles.map(t => t.y);
+            const minX = Math.min(...xs);
+            const minY = Math.min(...ys);
+
+            // Register room for debug/gameplay: bounding box + real tile set
+            mapData.rooms.push({
+                id: room.id,
+                name: room.name,
+                type: room.type,
+                x: minX,
+                y: minY,
+                width: Math.max(...xs) - minX + 1,
+                height: Math.max(...ys) - minY + 1,
+                tiles,
+                doors: []
+            });
         });
 
-        // 3. Apply Perlin Noise for Biomes
-        const noiseGrid = this.generateNoiseGrid(width, height);
+        // 2.6 Join every cave pocket and chamber into one connected cave
+        this.connectChambers(config, mapData, grid, ownerGrid, rng);
+        this.connectRegions(grid, ownerGrid, mapData, rng);
+        progress({ phase: 'rooms', message: `${mapData.rooms.length} chambers carved and joined` });
+
+        // 3. Apply Simplex Noise for Biomes (elevation + moisture)
+        const biomeGrid = this.generateBiomeGrid(width, height, rng);
 
         // 4. Convert to MapData
         for (let y = 0; y < height; y++) {
             for (let x = 0; x < width; x++) {
                 if (grid[y][x] === 1) { // 1 = Floor (Cave)
-                    // Use noise to decide biome
-                    const noiseVal = noiseGrid[y][x];
-                    const sprite = noiseVal > 0.5 ? 'floor_grass' : 'floor_mud';
+                    const biome = biomeGrid[y][x];
                     
                      mapData.tiles.push({
                         x, y,
-                        sprite,
+                        sprite: biome.sprite,
                         layer: 'floor'
                     });
 
-                    // Decoration (Mushrooms/Rocks) - Random scatter
-                    if (Math.random() < 0.05) {
-                        mapData.tiles.push({
-                            x, y,
-                            sprite: 'mushroom',
-                            layer: 'furniture'
-                        });
+                    // Decoration - density depends on biome, rooms stay clear for furniture
+                    if (!this.isInRoom(mapData, x, y)) {
+                        const decoration = this.pickDecoration(biome, rng);
+                        if (decoration) {
+                            mapData.tiles.push({
+                                x, y,
+                                sprite: decoration,
+                                layer: 'furniture'
+                            });
+                        }
                     }
                 } else {
                      // 0 = Wall (Empty/Solid)
@@ -86,7 +117,10 @@ export class OrganicGenerator implements IMapGenerator {
             }
         }
 
+        progress({ phase: 'tiles', message: `${mapData.tiles.length} tiles` });
+
         // 5. Place Logic Furniture in Rooms
+        const tilesBeforeFurniture = mapData.tiles.length;
         mapData.rooms.forEach(room => {
              const roomConfig = config.rooms.find(c => c.id === room.id);
              let items: string[] = roomConfig ? roomConfig.furniture : [];
@@ -98,8 +132,9 @@ export class OrganicGenerator implements IMapGenerator {
                  else items = ['chest']; 
              }
 
-             ConstraintSolver.placeItems(room, items, mapData, grid, 1);
+             report.unplacedFurniture.push(...ConstraintSolver.placeItems(room, items, mapData, grid, 1, rng));
         });
+        progress({ phase: 'furniture', message: `${mapData.tiles.length - tilesBeforeFurniture} items placed` });
 
         return mapData;
     }
@@ -120,29 +155,268 @@ export class OrganicGenerator implements IMapGenerator {
         return false;
     }
 
-    private generateNoiseGrid(width: number, height: number): number[][] {
-        // Simple value noise or smoothed noise
-        const grid = Array(height).fill(0).map(() => Array(width).fill(0));
-        // Seed
-        const seed = Math.random() * 100;
-        
+    private generateBiomeGrid(width: number, height: number, rng: SeededRandom): Biome[][] {
+        // Independent noise fields, both derived from the map seed
+        const elevationNoise = new SimplexNoise(rng);
+        const moistureNoise = new SimplexNoise(rng);
+
+        const grid: Biome[][] = [];
         for (let y = 0; y < height; y++) {
+            const row: Biome[] = [];
             for (let x = 0; x < width; x++) {
-                // Simple pseudo-noise: sin(x * freq) * cos(y * freq) + random
-                // This is a placeholder for real Perlin noise, but effective for biomes
-                // We'll use a smoother function
-                const nx = x / width - 0.5;
-                const ny = y / height - 0.5;
-                // A simple radial gradient mixed with noise
-                const dist = Math.sqrt(nx*nx + ny*ny);
-                const noise = (Math.sin((x + seed) * 0.1) + Math.cos((y + seed) * 0.1)) * 0.5 + 0.5;
-                // Mix distance to make edges darker/different if needed, or just use noise
-                grid[y][x] = noise * (1 - dist * 0.5); // Slight radial bias
+                const elevation = elevationNoise.fbm(x / ELEVATION_SCALE, y / ELEVATION_SCALE, 4);
+                const moisture = moistureNoise.fbm(x / MOISTURE_SCALE, y / MOISTURE_SCALE, 3);
+                row.push(this.pickBiome(elevation, moisture));
             }
+            grid.push(row);
         }
         return grid;
     }
 
+    private pickBiome(elevation: number, moisture: number): Biome {
+        const biome = this.biomes.find(b =>
+            elevation >= b.elevation[0] && elevation < b.elevation[1] &&
+            moisture >= b.moisture[0] && moisture < b.moisture[1]
+        );
+        return biome || this.biomes[this.biomes.length - 1];
+    }
+
+    private pickDecoration(biome: Biome, rng: SeededRandom): string | null {
+        // One roll per tile, decorations share the probability space
+        let roll = rng.next();
+        for (const deco of biome.decorations) {
+            if (roll < deco.density) return deco.sprite;
+            roll -= deco.density;
+        }
+        return null;
+    }
+
+    private isInRoom(mapData: MapData, x: number, y: number): boolean {
+        return mapData.rooms.some(r => r.tiles
+            ? r.tiles.some(t => t.x === x && t.y === y)
+            : x >= r.x && x < r.x + r.width && y >= r.y && y < r.y + r.height);
+    }
+
+    // ================= CHAMBERS =================
+
+    /**
+     * Carves a blob-shaped chamber (ellipse with a wobbly radius) where it overlaps
+     * existing chambers the least. Returns the tiles it owns.
+     */
+    private carveChamber(room: RoomConfig, idx: number, grid: number[][], ownerGrid: number[][], rng: SeededRandom): { x: number, y: number }[] {
+        const height = grid.length;
+        const width = grid[0].length;
+        const cw = Math.min(Math.floor(room.width || 8), width - 4);
+        const ch = Math.min(Math.floor(room.height || 8), height - 4);
+        const rx = cw / 2;
+        const ry = ch / 2;
+
+        // Radius wobble: a few random harmonics around the circle
+        const harmonics = [2, 3, 5].map(k => ({ k, phase: rng.next() * Math.PI * 2, amp: 0.08 + rng.next() * 0.1 }));
+        const shape: { dx: number, dy: number }[] = [];
+        for (let dy = -Math.ceil(ry); dy <= Math.ceil(ry); dy++) {
+            for (let dx = -Math.ceil(rx); dx <= Math.ceil(rx); dx++) {
+                const angle = Math.atan2(dy, dx);
+                const wobble = harmonics.reduce((sum, h) => sum + Math.sin(angle * h.k + h.phase) * h.amp, 0);
+                const dist = Math.sqrt((dx / rx) ** 2 + (dy / ry) ** 2);
+                if (dist <= 0.85 + wobble) shape.push({ dx, dy });
+            }
+        }
+
+        // Try a handful of centres, keep the one overlapping other chambers the least
+        const marginX = Math.ceil(rx) + 1;
+        const marginY = Math.ceil(ry) + 1;
+        let best: { cx: number, cy: number, overlap: number } | null = null;
+        for (let attempt = 0; attempt < 30; attempt++) {
+            const cx = rng.int(marginX, Math.max(marginX, width - 1 - marginX));
+            const cy = rng.int(marginY, Math.max(marginY, height - 1 - marginY));
+            const overlap = shape.filter(({ dx, dy }) => this.nearOtherChamber(cx + dx, cy + dy, ownerGrid)).length;
+            if (!best || overlap < best.overlap) best = { cx, cy, overlap };
+            if (overlap === 0) break;
+        }
+
+        const tiles: { x: number, y: number }[] = [];
+        shape.forEach(({ dx, dy }) => {
+            const x = best!.cx + dx;
+            const y = best!.cy + dy;
+            if (x < 1 || y < 1 || x >= width - 1 || y >= height - 1) return;
+            if (ownerGrid[y][x] !== -1) return; // Earlier chambers keep their tiles
+            grid[y][x] = 1;
+            ownerGrid[y][x] = idx;
+            tiles.push({ x, y });
+        });
+        return tiles;
+    }
+
+    /**
+     * True if the tile or one of its neighbours already belongs to a chamber (keeps a 1-tile gap).
+     */
+    private nearOtherChamber(x: number, y: number, ownerGrid: number[][]): boolean {
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                if (ownerGrid[y + dy]?.[x + dx] !== undefined && ownerGrid[y + dy][x + dx] !== -1) return true;
+            }
+        }
+        return false;
+    }
+
+    // ================= CONNECTIVITY =================
+
+    /**
+     * Tunnels along the room connection graph, for pairs not already joined by open cave.
+     */
+    private connectChambers(config: MapConfig, mapData: MapData, grid: number[][], ownerGrid: number[][], rng: SeededRandom) {
+        const linked = new Set<string>();
+        config.rooms.forEach(roomA => {
+            roomA.connections.forEach(connId => {
+                const key = [roomA.id, connId].sort().join('|');
+                if (linked.has(key)) return;
+                linked.add(key);
+
+                const a = mapData.rooms.find(r => r.id === roomA.id);
+                const b = mapData.rooms.find(r => r.id === connId);
+                if (!a?.tiles?.length || !b?.tiles?.length) return;
+
+                const regions = this.findRegions(grid);
+                if (regions.regionOf[a.tiles[0].y][a.tiles[0].x] === regions.regionOf[b.tiles[0].y][b.tiles[0].x]) return;
+
+                const from = this.centerTile(a.tiles);
+                const to = this.centerTile(b.tiles);
+                this.carveTunnel(from, to, grid, ownerGrid, mapData, rng);
+            });
+        });
+    }
+
+    /**
+     * Joins every remaining pocket to the largest region. Tiny pockets are filled instead.
+     */
+    private connectRegions(grid: number[][], ownerGrid: number[][], mapData: MapData, rng: SeededRandom) {
+        const MIN_POCKET = 6;
+
+        // Bounded: every pass removes at least one region
+        for (let pass = 0; pass < 200; pass++) {
+            const { regions } = this.findRegions(grid);
+            if (regions.length <= 1) return;
+
+            regions.sort((a, b) => b.length - a.length);
+            const main = regions[0];
+            const pocket = regions[regions.length - 1];
+
+            const hasChamber = pocket.some(t => ownerGrid[t.y][t.x] !== -1);
+            if (pocket.length < MIN_POCKET && !hasChamber) {
+                pocket.forEach(t => grid[t.y][t.x] = 0);
+                continue;
+            }
+
+            // Closest pair of tiles (pocket centre -> nearest main tile -> nearest pocket tile)
+            const pocketCenter = this.centerTile(pocket);
+            const target = this.nearestTile(main, pocketCenter);
+            const from = this.nearestTile(pocket, target);
+            this.carveTunnel(from, target, grid, ownerGrid, mapData, rng);
+        }
+    }
+
+    /**
+     * Flood-fills floor tiles (4-connected) into regions.
+     */
+    private findRegions(grid: number[][]): { regions: { x: number, y: number }[][], regionOf: number[][] } {
+        const height = grid.length;
+        const width = grid[0].length;
+        const regionOf: number[][] = Array(height).fill(0).map(() => Array(width).fill(-1));
+        const regions: { x: number, y: number }[][] = [];
+        const dirs = [[0,-1], [0,1], [-1,0], [1,0]];
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (grid[y][x] !== 1 || regionOf[y][x] !== -1) continue;
+
+                const id = regions.length;
+                const region: { x: number, y: number }[] = [{ x, y }];
+                regionOf[y][x] = id;
+                for (let head = 0; head < region.length; head++) {
+                    const cur = region[head];
+                    for (const [dx, dy] of dirs) {
+                        const nx = cur.x + dx;
+                        const ny = cur.y + dy;
+                        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                        if (grid[ny][nx] !== 1 || regionOf[ny][nx] !== -1) continue;
+                        regionOf[ny][nx] = id;
+                        region.push({ x: nx, y: ny });
+                    }
+                }
+                regions.push(region);
+            }
+        }
+        return { regions, regionOf };
+    }
+
+    /**
+     * Biased random walk from `from` to `to`, carving a 1-2 tile wide tunnel.
+     * Records a door wherever the tunnel enters a chamber.
+     */
+    private carveTunnel(from: { x: number, y: number }, to: { x: number, y: number }, grid: number[][], ownerGrid: number[][], mapData: MapData, rng: SeededRandom) {
+        const height = grid.length;
+        const width = grid[0].length;
+        let x = from.x;
+        let y = from.y;
+        let prevOwner = ownerGrid[y][x];
+        const maxSteps = (width + height) * 4;
+
+        for (let step = 0; step < maxSteps && (x !== to.x || y !== to.y); step++) {
+            const dx = Math.sign(to.x - x);
+            const dy = Math.sign(to.y - y);
+
+            // 70% step towards the target on the longer axis, otherwise wander
+            if (rng.chance(0.7) || step > maxSteps / 2) {
+                if (Math.abs(to.x - x) >= Math.abs(to.y - y)) x += dx;
+                else y += dy;
+            } else {
+                if (rng.chance(0.5)) x += rng.chance(0.5) ? 1 : -1;
+                else y += rng.chance(0.5) ? 1 : -1;
+            }
+            x = Math.max(1, Math.min(width - 2, x));
+            y = Math.max(1, Math.min(height - 2, y));
+
+            this.carveTunnelTile(x, y, grid);
+            if (rng.chance(0.5)) this.carveTunnelTile(x + 1, y, grid);
+
+            const owner = ownerGrid[y][x];
+            if (owner !== -1 && owner !== prevOwner) {
+                const room = mapData.rooms[owner];
+                if (!room.doors!.some(d => d.x === x && d.y === y)) room.doors!.push({ x, y });
+            }
+            prevOwner = owner;
+        }
+
+        // Random walk ran out of steps: finish with a straight L
+        while (x !== to.x) { x += Math.sign(to.x - x); this.carveTunnelTile(x, y, grid); }
+        while (y !== to.y) { y += Math.sign(to.y - y); this.carveTunnelTile(x, y, grid); }
+    }
+
+    private carveTunnelTile(x: number, y: number, grid: number[][]) {
+        if (x < 1 || y < 1 || x >= grid[0].length - 1 || y >= grid.length - 1) return;
+        grid[y][x] = 1;
+    }
+
+    private centerTile(tiles: { x: number, y: number }[]): { x: number, y: number } {
+        const cx = tiles.reduce((sum, t) => sum + t.x, 0) / tiles.length;
+        const cy = tiles.reduce((sum, t) => sum + t.y, 0) / tiles.length;
+        return this.nearestTile(tiles, { x: cx, y: cy });
+    }
+
+    private nearestTile(tiles: { x: number, y: number }[], point: { x: number, y: number }): { x: number, y: number } {
+        let best = tiles[0];
+        let bestDist = Infinity;
+        for (const t of tiles) {
+            const d = (t.x - point.x) ** 2 + (t.y - point.y) ** 2;
+            if (d < bestDist) {
+                bestDist = d;
+                best = t;
+            }
+        }
+        return best;
+    }
+
     private doSimulationStep(oldGrid: number[][]): number[][] {
         const height = oldGrid.length;
         const width = oldGrid[0].length;
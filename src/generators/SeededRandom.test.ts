@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { SeededRandom } from './SeededRandom';
+import { GeneratorFactory } from './MapGenerators';
+import { MapConfig, MapType } from '../types/MapConfig';
+import { createEmptyReport } from '../types/GenerationReport';
+
+const config = (type: MapType): MapConfig => ({
+    type,
+    tone: 'Normal',
+    width: 40,
+    height: 40,
+    description: 'Test map',
+    rooms: [
+        { id: 'hall', name: 'Hall', type: 'corridor', connections: ['kitchen', 'bedroom'], furniture: [], width: 12, height: 2 },
+        { id: 'kitchen', name: 'Kitchen', type: 'kitchen', connections: ['hall'], furniture: ['table', 'chair'], width: 6, height: 5 },
+        { id: 'bedroom', name: 'Bedroom', type: 'bedroom', connections: ['hall'], furniture: ['bed'], width: 5, height: 5 }
+    ]
+});
+
+const generate = (type: MapType, seed: number) => GeneratorFactory.getGenerator(type).generate(config(type), new SeededRandom(seed), createEmptyReport());
+
+describe('SeededRandom', () => {
+    it('repeats the same sequence for the same seed', () => {
+        const a = new SeededRandom(42);
+        const b = new SeededRandom(42);
+        expect(Array.from({ length: 20 }, () => a.next())).toEqual(Array.from({ length: 20 }, () => b.next()));
+    });
+
+    it('gives different sequences for different seeds', () => {
+        expect(new SeededRandom(1).next()).not.toBe(new SeededRandom(2).next());
+    });
+
+    it('keeps int() inside its bounds and shuffle() a permutation', () => {
+        const rng = new SeededRandom(7);
+        for (let i = 0; i < 200; i++) {
+            const n = rng.int(3, 6);
+            expect(n >= 3 && n <= 6 && Number.isInteger(n)).toBe(true);
+        }
+        const items = [1, 2, 3, 4, 5];
+        expect(rng.shuffle(items).sort()).toEqual(items);
+    });
+});
+
+describe('Seeded generation', () => {
+    for (const type of ['structured', 'organic', 'geometric', 'dungeon'] as MapType[]) {
+        it(`builds the same ${type} map for the same seed`, () => {
+            const first = generate(type, 1234);
+            expect(first.seed).toBe(1234);
+            expect(generate(type, 1234)).toEqual(first);
+        });
+    }
+
+    it('reports progress without changing the map', () => {
+        for (const type of ['structured', 'organic', 'geometric', 'dungeon'] as MapType[]) {
+            const phases: string[] = [];
+            const map = GeneratorFactory.getGenerator(type).generate(config(type), new SeededRandom(1234), createEmptyReport(), event => phases.push(event.phase));
+            expect(map).toEqual(generate(type, 1234));
+            expect(phases[0]).toBe('strategy');
+            expect(phases).toEqual(expect.arrayContaining(['rooms', 'tiles', 'furniture']));
+        }
+    });
+
+    it('builds the same FORCE layout for the same seed, without overlapping rooms', () => {
+        const forced = { ...config('structured'), layout: 'force' as const };
+        const build = () => GeneratorFactory.getGenerator('structured').generate(forced, new SeededRandom(99), createEmptyReport());
+        const first = build();
+        expect(build()).toEqual(first);
+
+        first.rooms.forEach((a, i) => first.rooms.slice(i + 1).forEach(b => {
+            const apart = a.x + a.width <= b.x || b.x + b.width <= a.x || a.y + a.height <= b.y || b.y + b.height <= a.y;
+            expect(apart).toBe(true);
+        }));
+    });
+});
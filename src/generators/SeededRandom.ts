@@ -0,0 +1,56 @@
+/**
+ * Deterministic PRNG (Mulberry32).
+ * One instance is created per generation and passed through every generator
+ * and the ConstraintSolver, so the same MapConfig + seed always yields the same map.
+ */
+export class SeededRandom {
+    public readonly seed: number;
+    private state: number;
+
+    constructor(seed: number) {
+        // Force to unsigned 32-bit integer
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Creates a fresh seed for configs that don't specify one.
+     */
+    static randomSeed(): number {
+        return Math.floor(Math.random() * 0xffffffff) >>> 0;
+    }
+
+    /**
+     * Returns a float in [0, 1). Drop-in replacement for Math.random().
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Returns an integer in [min, max] (inclusive).
+     */
+    int(min: number, max: number): number {
+        return Math.floor(this.next() * (max - min + 1)) + min;
+    }
+
+    chance(probability: number): boolean {
+        return this.next() < probability;
+    }
+
+    /**
+     * Fisher-Yates shuffle. Returns a new array, input is not mutated.
+     */
+    shuffle<T>(items: T[]): T[] {
+        const result = [...items];
+        for (let i = result.length - 1; i > 0; i--) {
+            const j = Math.floor(this.next() * (i + 1));
+            [result[i], result[j]] = [result[j], result[i]];
+        }
+        return result;
+    }
+}
@@ -0,0 +1,83 @@
+import { SeededRandom } from './SeededRandom';
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+const GRADIENTS: [number, number][] = [
+    [1, 1], [-1, 1], [1, -1], [-1, -1],
+    [1, 0], [-1, 0], [0, 1], [0, -1]
+];
+
+/**
+ * 2D Simplex noise with a permutation table shuffled by the map's PRNG,
+ * so the same seed always produces the same terrain.
+ */
+export class SimplexNoise {
+    private perm: number[];
+
+    constructor(rng: SeededRandom) {
+        const p = rng.shuffle(Array.from({ length: 256 }, (_, i) => i));
+        this.perm = [...p, ...p];
+    }
+
+    /**
+     * Raw noise in [-1, 1].
+     */
+    noise2D(xin: number, yin: number): number {
+        const perm = this.perm;
+
+        // Skew input space to find the simplex cell
+        const s = (xin + yin) * F2;
+        const i = Math.floor(xin + s);
+        const j = Math.floor(yin + s);
+        const t = (i + j) * G2;
+        const x0 = xin - (i - t);
+        const y0 = yin - (j - t);
+
+        // Which of the two triangles are we in?
+        const i1 = x0 > y0 ? 1 : 0;
+        const j1 = x0 > y0 ? 0 : 1;
+
+        const x1 = x0 - i1 + G2;
+        const y1 = y0 - j1 + G2;
+        const x2 = x0 - 1 + 2 * G2;
+        const y2 = y0 - 1 + 2 * G2;
+
+        const ii = i & 255;
+        const jj = j & 255;
+
+        const corner = (x: number, y: number, gi: number) => {
+            const t = 0.5 - x * x - y * y;
+            if (t < 0) return 0;
+            const [gx, gy] = GRADIENTS[gi % GRADIENTS.length];
+            return t * t * t * t * (gx * x + gy * y);
+        };
+
+        const n0 = corner(x0, y0, perm[ii + perm[jj]]);
+        const n1 = corner(x1, y1, perm[ii + i1 + perm[jj + j1]]);
+        const n2 = corner(x2, y2, perm[ii + 1 + perm[jj + 1]]);
+
+        // Scale to roughly [-1, 1]
+        return 70 * (n0 + n1 + n2);
+    }
+
+    /**
+     * Fractal (multi-octave) noise normalized to [0, 1].
+     */
+    fbm(x: number, y: number, octaves: number = 4, lacunarity: number = 2, gain: number = 0.5): number {
+        let amplitude = 1;
+        let frequency = 1;
+        let sum = 0;
+        let norm = 0;
+
+        for (let o = 0; o < octaves; o++) {
+            sum += amplitude * this.noise2D(x * frequency, y * frequency);
+            norm += amplitude;
+            amplitude *= gain;
+            frequency *= lacunarity;
+        }
+
+        const value = (sum / norm + 1) / 2;
+        return Math.max(0, Math.min(1, value));
+    }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StructuredGenerator } from './StructuredGenerator';
+import { GeneratorFactory } from './MapGenerators';
+import { SeededRandom } from './SeededRandom';
+import { MapConfig, MapType, RoomConfig } from '../types/MapConfig';
+import { createEmptyReport } from '../types/GenerationReport';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+const room = (id: string, connections: string[], level?: number): RoomConfig =>
+    ({ id, name: id, type: 'room', connections, furniture: [], width: 6, height: 6, ...(level !== undefined ? { level } : {}) });
+
+const building = (type: MapType, rooms: RoomConfig[]): MapConfig =>
+    ({ type, tone: 'Normal', width: 40, height: 40, description: 'Levels', rooms });
+
+describe('StructuredGenerator levels', () => {
+    it('builds stairs between adjacent levels', () => {
+        const report = createEmptyReport();
+        const mapData = new StructuredGenerator().generate(building('structured', [
+            room('hall', ['cellar', 'attic']), room('cellar', ['hall'], -1), room('attic', ['hall'], 1)
+        ]), new SeededRandom(3), report);
+
+        expect(mapData.levels).toEqual([-1, 0, 1]);
+        expect(mapData.stairs?.map(s => [s.lower, s.upper])).toEqual([[-1, 0], [0, 1]]);
+        expect(report.missingStairs).toEqual([]);
+        expect(report.missingDoors).toEqual([]);
+    });
+
+    it('reports connections that skip a level instead of dropping them', () => {
+        const report = createEmptyReport();
+        const mapData = new StructuredGenerator().generate(building('structured', [
+            room('hall', ['tower']), room('tower', ['hall'], 2)
+        ]), new SeededRandom(3), report);
+
+        expect(mapData.stairs).toEqual([]);
+        expect(report.missingStairs).toEqual([{ from: 'hall', to: 'tower', reason: 'levels_not_adjacent' }]);
+    });
+});
+
+describe('Single-level generators', () => {
+    for (const type of ['organic', 'geometric', 'dungeon'] as MapType[]) {
+        it(`reports the levels ${type} maps ignore`, () => {
+            const report = createEmptyReport();
+            const mapData = GeneratorFactory.getGenerator(type).generate(building(type, [
+                room('a', ['b']), room('b', ['a', 'c'], 0), room('c', ['b'], -1)
+            ]), new SeededRandom(3), report);
+
+            expect(report.ignoredLevels).toEqual(['c']);
+            expect(mapData.levels).toBeUndefined();
+        });
+    }
+});
@@ -1,13 +1,18 @@
 import { MapConfig, RoomConfig } from '../types/MapConfig';
-import { MapData } from '../types/MapData';
+import { MapData, RoomData } from '../types/MapData';
+import { GenerationReport } from '../types/GenerationReport';
+import { ProgressCallback, NO_PROGRESS } from '../types/Progress';
 import { IMapGenerator } from './MapGenerators';
 import { ConstraintSolver } from './ConstraintSolver';
+import { SeededRandom } from './SeededRandom';
+import { forceSimulation, forceLink, forceCollide, forceCenter, SimulationNodeDatum, SimulationLinkDatum } from 'd3-force';
 
 // Tipe Grid
 const TERRAIN = 0;
 const FLOOR = 1;
 const WALL = 2;
 const DOOR = 3;
+const STAIRS = 4;
 
 class Rect {
     public x: number;
@@ -42,30 +47,98 @@ class Rect {
     }
 }
 
+// Physics body for the FORCE layout (x/y = simulated centre)
+interface Body extends SimulationNodeDatum {
+    rect: Rect;
+}
+
 export class StructuredGenerator implements IMapGenerator {
 
-    generate(config: MapConfig): MapData {
+    generate(config: MapConfig, rng: SeededRandom, report: GenerationReport, progress: ProgressCallback = NO_PROGRESS): MapData {
         console.log(`[StructuredGenerator] Phase 2: Physics & Strict Grid...`);
         
         const mapData: MapData = {
             width: config.width,
             height: config.height,
             tiles: [],
-            rooms: []
+            rooms: [],
+            seed: rng.seed
         };
 
-        // 1. Init Grid
-        const grid: number[][] = Array(config.height).fill(0).map(() => Array(config.width).fill(TERRAIN));
-        // roomGrid menyimpan ID ruangan (index array) di setiap sel untuk deteksi dinding internal
-        const roomGrid: number[][] = Array(config.height).fill(0).map(() => Array(config.width).fill(-1));
+        // 1. Split rooms per level (0 = ground, negative = basements)
+        const levels = [...new Set(config.rooms.map(r => r.level ?? 0))].sort((a, b) => a - b);
+        if (levels.length === 0) levels.push(0);
+        const isMultiLevel = levels.length > 1;
+        const onLevel = (level: number) => isMultiLevel ? ` (level ${level})` : '';
+
+        // 2. Layout each level. Ground first, so every other level can align
+        // its stairs to the neighbouring level closer to the ground.
+        const layouts = new Map<number, Rect[]>();
+        [...levels].sort((a, b) => Math.abs(a) - Math.abs(b)).forEach(level => {
+            const rooms = config.rooms.filter(r => (r.level ?? 0) === level);
+            const placed = this.layoutLevel(rooms, config, rng, report, strategy => progress({ phase: 'strategy', message: `${strategy}${onLevel(level)}` }));
+            progress({ phase: 'rooms', message: `${placed.length}/${rooms.length} rooms placed${onLevel(level)}` });
+
+            const refLevel = level > 0 ? level - 1 : level + 1;
+            const refPlaced = layouts.get(refLevel);
+            if (level !== 0 && refPlaced) {
+                this.alignToLevel(placed, refPlaced, config);
+            }
+            layouts.set(level, placed);
+        });
+
+        // 3. Rasterize, Walls & Doors per level
+        const grids = new Map<number, { grid: number[][], roomGrid: number[][] }>();
+        levels.forEach(level => {
+            grids.set(level, this.buildLevelGrid(layouts.get(level)!, config, mapData, report, isMultiLevel ? level : undefined, progress));
+        });
+
+        // 4. Stairs between adjacent levels
+        if (isMultiLevel) {
+            mapData.levels = levels;
+            mapData.stairs = [];
+            for (let i = 0; i < levels.length - 1; i++) {
+                const lower = levels[i];
+                const upper = levels[i + 1];
+                if (upper - lower !== 1) continue; // Reported below
+                this.generateStairs(layouts.get(lower)!, layouts.get(upper)!, grids.get(lower)!.grid, grids.get(upper)!.grid, lower, upper, mapData, report);
+            }
+            this.reportSkippedLevels(layouts, report);
+            progress({ phase: 'stairs', message: `${mapData.stairs.length} staircases${report.missingStairs.length ? `, ${report.missingStairs.length} missing` : ''}` });
+        }
 
-        // 2. Prepare Rects (Strict Integer)
-        const allRects: Rect[] = config.rooms.map(room => {
+        // 5. Tiles & Furniture
+        levels.forEach(level => {
+            const { grid, roomGrid } = grids.get(level)!;
+            const placedRects = layouts.get(level)!;
+            const firstTile = mapData.tiles.length;
+
+            this.generateTiles(grid, roomGrid, placedRects, mapData, config, level);
+            progress({ phase: 'tiles', message: `${mapData.tiles.length - firstTile} tiles${onLevel(level)}` });
+            const tilesBeforeFurniture = mapData.tiles.length;
+            const levelRooms = mapData.rooms.filter(r => placedRects.some(p => p.room.id === r.id));
+            this.furnishRooms(levelRooms, mapData, config, grid, rng, report);
+            progress({ phase: 'furniture', message: `${mapData.tiles.length - tilesBeforeFurniture} items placed${onLevel(level)}` });
+
+            // Tag everything this level produced (including solver furniture)
+            if (isMultiLevel) {
+                for (let i = firstTile; i < mapData.tiles.length; i++) {
+                    mapData.tiles[i].level = level;
+                }
+            }
+        });
+
+        return mapData;
+    }
+
+    private layoutLevel(rooms: RoomConfig[], config: MapConfig, rng: SeededRandom, report: GenerationReport, onStrategy: (strategy: string) => void): Rect[] {
+        // Prepare Rects (Strict Integer)
+        const allRects: Rect[] = rooms.map(room => {
             const dim = this.getRoomDimensions(room);
             return new Rect(0, 0, dim.w, dim.h, room);
         });
 
-        // 3. Strategy Selector
+        // Strategy Selector
         const spineRoom = allRects.find(r => 
             /corridor|hall|passage|gallery/i.test(r.room.type) || 
             /corridor|hall|passage/i.test(r.room.name)
@@ -76,22 +149,58 @@ export class StructuredGenerator implements IMapGenerator {
             r.room.connections.length >= 2
         );
 
+        // An explicit layout wins, as long as the rooms it needs exist
+        let strategy = config.layout;
+        if ((strategy === 'spine' && !spineRoom) || (strategy === 'hub' && !hubRoom)) {
+            console.warn(`[Gen] No anchor room for ${strategy.toUpperCase()} layout, picking automatically`);
+            strategy = undefined;
+        }
+        // FORCE is opt-in only: the automatic pick keeps existing prompts and seeds on their old maps
+        if (!strategy) strategy = spineRoom ? 'spine' : hubRoom ? 'hub' : 'cluster';
+
         let placedRects: Rect[] = [];
 
-        if (spineRoom) {
-            console.log(`[Gen] Strategy A: SPINE (Anchor: ${spineRoom.room.name})`);
-            placedRects = this.buildSpineLayout(spineRoom, allRects, config.width, config.height);
+        if (strategy === 'spine') {
+            console.log(`[Gen] Strategy A: SPINE (Anchor: ${spineRoom!.room.name})`);
+            onStrategy(`SPINE (anchor: ${spineRoom!.room.name})`);
+            placedRects = this.buildSpineLayout(spineRoom!, allRects, config.width, config.height);
         } 
-        else if (hubRoom) {
-            console.log(`[Gen] Strategy B: HUB (Anchor: ${hubRoom.room.name})`);
-            placedRects = this.buildHubLayout(hubRoom, allRects, config.width, config.height);
+        else if (strategy === 'hub') {
+            console.log(`[Gen] Strategy B: HUB (Anchor: ${hubRoom!.room.name})`);
+            onStrategy(`HUB (anchor: ${hubRoom!.room.name})`);
+            placedRects = this.buildHubLayout(hubRoom!, allRects, config.width, config.height);
         } 
+        else if (strategy === 'force') {
+            console.log(`[Gen] Strategy D: FORCE (Connection Springs)`);
+            onStrategy('FORCE (connection springs)');
+            placedRects = this.buildForceLayout(allRects, config.width, config.height, rng);
+        }
         else {
             console.log(`[Gen] Strategy C: CLUSTER (Organic Packing)`);
-            placedRects = this.buildClusterLayout(allRects, config.width, config.height);
+            onStrategy('CLUSTER (organic packing)');
+            placedRects = this.buildClusterLayout(allRects, config.width, config.height, rng);
         }
 
-        // 4. Rasterize to Grid
+        // Report rooms the layout strategy gave up on
+        allRects.forEach(r => {
+            if (!placedRects.includes(r)) {
+                console.warn(`[Gen] Dropped room: ${r.room.name} (no free position)`);
+                report.droppedRooms.push({
+                    id: r.room.id,
+                    name: r.room.name,
+                    reason: 'No free position next to a connected room'
+                });
+            }
+        });
+
+        return placedRects;
+    }
+
+    private buildLevelGrid(placedRects: Rect[], config: MapConfig, mapData: MapData, report: GenerationReport, level: number | undefined, progress: ProgressCallback) {
+        const grid: number[][] = Array(config.height).fill(0).map(() => Array(config.width).fill(TERRAIN));
+        // roomGrid menyimpan ID ruangan (index array) di setiap sel untuk deteksi dinding internal
+        const roomGrid: number[][] = Array(config.height).fill(0).map(() => Array(config.width).fill(-1));
+
         placedRects.forEach((r, idx) => {
             const startX = Math.max(0, r.x);
             const startY = Math.max(0, r.y);
@@ -110,19 +219,119 @@ export class StructuredGenerator implements IMapGenerator {
                 name: r.room.name,
                 type: r.room.type,
                 x: r.x, y: r.y, width: r.w, height: r.h,
-                doors: []
+                doors: [],
+                level
             });
         });
 
-        // 5. Walls & Doors
+        const onLevel = level !== undefined ? ` (level ${level})` : '';
         this.generateWalls(grid, roomGrid, config);
-        this.generateDoors(placedRects, grid, mapData);
+        progress({ phase: 'walls', message: `Outer and partition walls${onLevel}` });
+        const missingBefore = report.missingDoors.length;
+        this.generateDoors(placedRects, grid, mapData, report);
+        progress({ phase: 'doors', message: `${grid.flat().filter(cell => cell === DOOR).length} door tiles, ${report.missingDoors.length - missingBefore} missing${onLevel}` });
 
-        // 6. Tiles & Furniture
-        this.generateTiles(grid, roomGrid, mapData, config);
-        this.furnishRooms(mapData, config, grid);
+        return { grid, roomGrid };
+    }
 
-        return mapData;
+    // ================= LEVELS =================
+
+    /**
+     * Shifts a whole level so its room connected to the reference level sits on top of
+     * (or below) its partner. Keeps the level inside the map bounds.
+     */
+    private alignToLevel(placed: Rect[], refPlaced: Rect[], config: MapConfig) {
+        let pair: { rect: Rect, ref: Rect } | null = null;
+        for (const rect of placed) {
+            const ref = refPlaced.find(r => rect.room.connections.includes(r.room.id) || r.room.connections.includes(rect.room.id));
+            if (ref) {
+                pair = { rect, ref };
+                break;
+            }
+        }
+        if (!pair || placed.length === 0) return;
+
+        const minX = Math.min(...placed.map(r => r.x));
+        const minY = Math.min(...placed.map(r => r.y));
+        const maxX = Math.max(...placed.map(r => r.right));
+        const maxY = Math.max(...placed.map(r => r.bottom));
+
+        const dx = Math.max(-minX, Math.min(pair.ref.centerX - pair.rect.centerX, config.width - maxX));
+        const dy = Math.max(-minY, Math.min(pair.ref.centerY - pair.rect.centerY, config.height - maxY));
+
+        placed.forEach(r => {
+            r.x += dx;
+            r.y += dy;
+        });
+    }
+
+    /**
+     * Stairs only join neighbouring levels: connections that skip one (0 <-> 2) are reported, not built.
+     */
+    private reportSkippedLevels(layouts: Map<number, Rect[]>, report: GenerationReport) {
+        const placed = [...layouts.values()].flat().map(rect => rect.room);
+        const byId = new Map(placed.map(room => [room.id, room]));
+        const reported = new Set<string>();
+        placed.forEach(room => room.connections.forEach(target => {
+            const other = byId.get(target);
+            if (!other) return;
+            const [lower, upper] = (room.level ?? 0) < (other.level ?? 0) ? [room, other] : [other, room];
+            const key = `${lower.id}|${upper.id}`;
+            if ((upper.level ?? 0) - (lower.level ?? 0) < 2 || reported.has(key)) return;
+            reported.add(key);
+            report.missingStairs.push({ from: lower.id, to: upper.id, reason: 'levels_not_adjacent' });
+        }));
+    }
+
+    private generateStairs(lowerRects: Rect[], upperRects: Rect[], lowerGrid: number[][], upperGrid: number[][], lower: number, upper: number, mapData: MapData, report: GenerationReport) {
+        const linked = new Set<string>();
+
+        lowerRects.forEach(rA => {
+            upperRects.forEach(rB => {
+                if (!rA.room.connections.includes(rB.room.id) && !rB.room.connections.includes(rA.room.id)) return;
+                const key = `${rA.room.id}|${rB.room.id}`;
+                if (linked.has(key)) return;
+                linked.add(key);
+
+                const spot = this.findStairSpot(rA, rB, lowerGrid, upperGrid);
+                if (!spot) {
+                    report.missingStairs.push({ from: rA.room.id, to: rB.room.id, reason: 'no_landing' });
+                    return;
+                }
+
+                lowerGrid[spot.y][spot.x] = STAIRS;
+                upperGrid[spot.y][spot.x] = STAIRS;
+                mapData.stairs!.push({ x: spot.x, y: spot.y, lower, upper });
+
+                // Keep furniture off the landing
+                this.addDoorMeta(mapData, rA.room.id, spot.x, spot.y);
+                this.addDoorMeta(mapData, rB.room.id, spot.x, spot.y);
+            });
+        });
+    }
+
+    /**
+     * Finds a tile that is plain floor in both rooms, closest to the upper room's center.
+     */
+    private findStairSpot(rA: Rect, rB: Rect, lowerGrid: number[][], upperGrid: number[][]): { x: number, y: number } | null {
+        const startX = Math.max(rA.x, rB.x, 0);
+        const endX = Math.min(rA.right, rB.right, lowerGrid[0].length);
+        const startY = Math.max(rA.y, rB.y, 0);
+        const endY = Math.min(rA.bottom, rB.bottom, lowerGrid.length);
+
+        let best: { x: number, y: number } | null = null;
+        let bestDist = Infinity;
+        for (let y = startY; y < endY; y++) {
+            for (let x = startX; x < endX; x++) {
+                if (lowerGrid[y][x] !== FLOOR || upperGrid[y][x] !== FLOOR) continue;
+                const dist = Math.abs(x - rB.centerX) + Math.abs(y - rB.centerY);
+                if (dist < bestDist) {
+                    bestDist = dist;
+                    best = { x, y };
+                }
+            }
+        }
+        return best;
     }
 
     // ================= STRATEGIES =================
@@ -208,7 +417,7 @@ export class StructuredGenerator implements IMapGenerator {
         return placed;
     }
 
-    private buildClusterLayout(allRects: Rect[], mapW: number, mapH: number): Rect[] {
+    private buildClusterLayout(allRects: Rect[], mapW: number, mapH: number, rng: SeededRandom): Rect[] {
         if (allRects.length === 0) return [];
 
         const placed: Rect[] = [];
@@ -225,7 +434,7 @@ export class StructuredGenerator implements IMapGenerator {
         const queue = allRects.filter(r => !placedIds.has(r.room.id));
         
         for (const child of queue) {
-            const possibleParents = [...placed].sort(() => Math.random() - 0.5);
+            const possibleParents = rng.shuffle(placed);
             for (const parent of possibleParents) {
                 const pos = this.findTightSnapPosition(parent, child, placed);
                 if (pos) {
@@ -241,8 +450,145 @@ export class StructuredGenerator implements IMapGenerator {
         return placed;
     }
 
+    /**
+     * Rooms are bodies and connections are springs. The settled simulation only gives the rough
+     * arrangement: rooms are then snapped onto the grid breadth-first along the connections,
+     * each against an already placed neighbour so connected rooms share a wall.
+     */
+    private buildForceLayout(allRects: Rect[], mapW: number, mapH: number, rng: SeededRandom): Rect[] {
+        if (allRects.length === 0) return [];
+
+        // 1. Bodies start scattered around the centre (seeded, so layouts are reproducible)
+        const spread = Math.min(mapW, mapH) / 3;
+        const bodies: Body[] = allRects.map(rect => ({
+            rect,
+            x: mapW / 2 + (rng.next() - 0.5) * spread,
+            y: mapH / 2 + (rng.next() - 0.5) * spread
+        }));
+        const radius = (b: Body) => Math.max(b.rect.w, b.rect.h) / 2;
+
+        // 2. One spring per connected pair, resting when the two rooms touch
+        const links: SimulationLinkDatum<Body>[] = [];
+        const linked = new Set<string>();
+        bodies.forEach(a => {
+            a.rect.room.connections.forEach(id => {
+                const b = bodies.find(o => o.rect.room.id === id);
+                const key = [a.rect.room.id, id].sort().join('|');
+                if (!b || b === a || linked.has(key)) return;
+                linked.add(key);
+                links.push({ source: a, target: b });
+            });
+        });
+
+        // 3. Settle synchronously (we're already off the main thread, no timer needed)
+        forceSimulation(bodies)
+            .randomSource(() => rng.next())
+            .force('link', forceLink<Body, SimulationLinkDatum<Body>>(links)
+                .distance(l => radius(l.source as Body) + radius(l.target as Body))
+                .strength(1))
+            .force('collide', forceCollide<Body>(radius).iterations(2))
+            .force('center', forceCenter(mapW / 2, mapH / 2))
+            .stop()
+            .tick(300);
+
+        const neighbours = (b: Body) => links.flatMap(l =>
+            l.source === b ? [l.target as Body] : l.target === b ? [l.source as Body] : []
+        );
+
+        // 4. Snap order: breadth-first from the best-connected room of each component
+        const order: Body[] = [];
+        const visited = new Set<Body>();
+        const roots = [...bodies].sort((a, b) => neighbours(b).length - neighbours(a).length);
+        for (const root of roots) {
+            if (visited.has(root)) continue;
+            visited.add(root);
+            for (let head = order.push(root) - 1; head < order.length; head++) {
+                neighbours(order[head]).forEach(n => {
+                    if (!visited.has(n)) {
+                        visited.add(n);
+                        order.push(n);
+                    }
+                });
+            }
+        }
+
+        // 5. Snap to the grid
+        const placed: Rect[] = [];
+        for (const body of order) {
+            const rect = body.rect;
+            const target = { x: Math.round(body.x! - rect.w / 2), y: Math.round(body.y! - rect.h / 2) };
+
+            if (placed.length === 0) {
+                rect.x = Math.max(0, Math.min(mapW - rect.w, target.x));
+                rect.y = Math.max(0, Math.min(mapH - rect.h, target.y));
+                placed.push(rect);
+                continue;
+            }
+
+            // Snap against placed neighbours; if they are boxed in (or this is a new component),
+            // dock wherever is closest to the simulated spot
+            const placedNeighbours = neighbours(body).map(n => n.rect).filter(r => placed.includes(r));
+
+            const best = this.findSharedWallSnap(rect, placedNeighbours, placed, placedNeighbours, target, mapW, mapH)
+                ?? this.findSharedWallSnap(rect, placed, placed, placedNeighbours, target, mapW, mapH);
+
+            if (best) {
+                rect.x = best.x;
+                rect.y = best.y;
+                placed.push(rect);
+            }
+        }
+
+        return placed;
+    }
+
     // ================= HELPERS =================
 
+    /**
+     * Free, in-bounds spot sharing a wall with one of `parents`. Touching several connected
+     * rooms at once beats staying close to the simulated target.
+     */
+    private findSharedWallSnap(rect: Rect, parents: Rect[], placed: Rect[], connected: Rect[], target: { x: number, y: number }, mapW: number, mapH: number): { x: number, y: number } | null {
+        let best: { x: number, y: number, score: number } | null = null;
+        for (const parent of parents) {
+            for (const pos of this.sharedWallPositions(parent, rect)) {
+                if (pos.x < 0 || pos.y < 0 || pos.x + rect.w > mapW || pos.y + rect.h > mapH) continue;
+                rect.x = pos.x;
+                rect.y = pos.y;
+                if (this.checkCollision(rect, placed)) continue;
+
+                const shared = connected.filter(n => this.sharesWall(rect, n)).length;
+                const score = Math.abs(pos.x - target.x) + Math.abs(pos.y - target.y) - shared * 1000;
+                if (!best || score < best.score) best = { ...pos, score };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Every position where `child` touches one side of `parent` with enough overlap for a door.
+     */
+    private sharedWallPositions(parent: Rect, child: Rect): { x: number, y: number }[] {
+        const positions: { x: number, y: number }[] = [];
+        const minX = Math.min(4, parent.w, child.w);
+        const minY = Math.min(4, parent.h, child.h);
+
+        for (let x = parent.x - child.w + minX; x <= parent.right - minX; x++) {
+            positions.push({ x, y: parent.y - child.h }, { x, y: parent.bottom });
+        }
+        for (let y = parent.y - child.h + minY; y <= parent.bottom - minY; y++) {
+            positions.push({ x: parent.x - child.w, y }, { x: parent.right, y });
+        }
+        return positions;
+    }
+
+    private sharesWall(a: Rect, b: Rect): boolean {
+        const overlapX = Math.min(a.right, b.right) - Math.max(a.x, b.x);
+        const overlapY = Math.min(a.bottom, b.bottom) - Math.max(a.y, b.y);
+        if ((a.bottom === b.y || a.y === b.bottom) && overlapX >= Math.min(4, a.w, b.w)) return true;
+        return (a.right === b.x || a.x === b.right) && overlapY >= Math.min(4, a.h, b.h);
+    }
+
     private placeLeftovers(allRects: Rect[], placed: Rect[], placedIds: Set<string>) {
         let stuck = 0;
         while (placed.length < allRects.length && stuck < 50) {
@@ -345,16 +691,29 @@ export class StructuredGenerator implements IMapGenerator {
         }
     }
 
-    private generateDoors(placedRects: Rect[], grid: number[][], mapData: MapData) {
+    private generateDoors(placedRects: Rect[], grid: number[][], mapData: MapData, report: GenerationReport) {
+        const missing = new Set<string>();
         placedRects.forEach(rA => {
             rA.room.connections.forEach(connId => {
                 const rB = placedRects.find(p => p.room.id === connId);
-                if (rB) this.carveDoor(rA, rB, grid, mapData);
+                if (rB && !this.carveDoor(rA, rB, grid, mapData)) {
+                    // Connections are usually bidirectional, report each pair once
+                    const key = [rA.room.id, rB.room.id].sort().join('|');
+                    if (!missing.has(key)) {
+                        missing.add(key);
+                        report.missingDoors.push({ from: rA.room.id, to: rB.room.id });
+                    }
+                }
             });
         });
     }
 
-    private carveDoor(rA: Rect, rB: Rect, grid: number[][], mapData: MapData) {
+    /**
+     * Carves a door on the shared wall. Returns false if the rooms don't touch.
+     */
+    private carveDoor(rA: Rect, rB: Rect, grid: number[][], mapData: MapData): boolean {
+        let carved = false;
+
         // Find Overlap Range (Strict Touching)
         const intersectX_Start = Math.max(rA.x, rB.x);
         const intersectX_End = Math.min(rA.right, rB.right);
@@ -384,6 +743,7 @@ export class StructuredGenerator implements IMapGenerator {
             
             this.addDoorMeta(mapData, rB.room.id, dx, boundaryY);
             this.addDoorMeta(mapData, rB.room.id, dx+1, boundaryY);
+            carved = true;
         }
         
         // Horizontal Connection (Kiri/Kanan)
@@ -402,7 +762,10 @@ export class StructuredGenerator implements IMapGenerator {
 
             this.addDoorMeta(mapData, rB.room.id, boundaryX, dy);
             this.addDoorMeta(mapData, rB.room.id, boundaryX, dy+1);
+            carved = true;
         }
+
+        return carved;
     }
 
     private setDoor(x: number, y: number, grid: number[][]) {
@@ -422,7 +785,7 @@ export class StructuredGenerator implements IMapGenerator {
         }
     }
 
-    private generateTiles(grid: number[][], roomGrid: number[][], mapData: MapData, config: MapConfig) {
+    private generateTiles(grid: number[][], roomGrid: number[][], placedRects: Rect[], mapData: MapData, config: MapConfig, level: number) {
         for (let y = 0; y < config.height; y++) {
             for (let x = 0; x < config.width; x++) {
                 const val = grid[y][x];
@@ -433,10 +796,10 @@ export class StructuredGenerator implements IMapGenerator {
                 if (val === WALL) {
                     mapData.tiles.push({ x, y, sprite: 'wall_brick', layer: 'wall' });
                 } 
-                else if (val === FLOOR || val === DOOR) {
+                else if (val === FLOOR || val === DOOR || val === STAIRS) {
                     let sprite = 'floor_common';
-                    if (rIdx !== -1 && config.rooms[rIdx]) {
-                        sprite = this.getFloorSprite(config.rooms[rIdx].type);
+                    if (rIdx !== -1 && placedRects[rIdx]) {
+                        sprite = this.getFloorSprite(placedRects[rIdx].room.type);
                     }
                     mapData.tiles.push({ x, y, sprite, layer: 'floor' });
                     
@@ -444,6 +807,12 @@ export class StructuredGenerator implements IMapGenerator {
                         // VISUAL DOOR FIX: Render pintu di layer furniture
                         mapData.tiles.push({ x, y, sprite: 'door_wood', layer: 'furniture' });
                     }
+
+                    if (val === STAIRS) {
+                        const link = mapData.stairs?.find(s => s.x === x && s.y === y && (s.lower === level || s.upper === level));
+                        const sprite = link && link.lower === level ? 'stairs_up' : 'stairs_down';
+                        mapData.tiles.push({ x, y, sprite, layer: 'furniture' });
+                    }
                 }
             }
         }
@@ -457,11 +826,11 @@ export class StructuredGenerator implements IMapGenerator {
         return 'floor_common';
     }
 
-    private furnishRooms(mapData: MapData, config: MapConfig, grid: number[][]) {
-        mapData.rooms.forEach(room => {
+    private furnishRooms(rooms: RoomData[], mapData: MapData, config: MapConfig, grid: number[][], rng: SeededRandom, report: GenerationReport) {
+        rooms.forEach(room => {
             const cfg = config.rooms.find(r => r.id === room.id);
             if (cfg && cfg.furniture) {
-                ConstraintSolver.placeItems(room, cfg.furniture, mapData, grid, FLOOR);
+                report.unplacedFurniture.push(...ConstraintSolver.placeItems(room, cfg.furniture, mapData, grid, FLOOR, rng));
             }
         });
     }
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { MapFile } from './MapFile';
+import { SAVED_MAP_VERSION } from '../types/SavedMap';
+
+const mapData = { width: 40, height: 40, seed: 5, tiles: [{ x: 0, y: 0, sprite: 'floor', layer: 'floor' }], rooms: [{ id: 'r1', name: 'Bar', type: 'tavern', x: 1, y: 1, width: 8, height: 6 }] };
+const config = { type: 'structured', tone: 'Night', width: 40, height: 40, rooms: [{ id: 'r1', name: 'Bar', type: 'tavern', connections: [], furniture: [] }], description: 'Old inn' };
+
+describe('MapFile.migrate', () => {
+    it('upgrades a bare MapData export', () => {
+        const { version, map } = MapFile.migrate(mapData);
+        expect(version).toBe(SAVED_MAP_VERSION);
+        expect(map.mapData.tiles).toHaveLength(1);
+        expect(map.mapData.seed).toBe(5);
+        expect(map.config.type).toBe('structured');
+        // The config is rebuilt from the map's rooms
+        expect(map.config.rooms).toEqual([{ id: 'r1', name: 'Bar', type: 'tavern', width: 8, height: 6, connections: [], furniture: [] }]);
+    });
+
+    it('upgrades an unversioned { config, mapData } export', () => {
+        const { map } = MapFile.migrate({ config, mapData: { ...mapData, seed: undefined }, prompt: 'an inn' });
+        expect(map).toMatchObject({ name: 'Old inn', prompt: 'an inn', tone: 'Night' });
+        expect(map.mapData.seed).toBe(0);
+    });
+
+    it('round-trips through serialize and parse without derived data', () => {
+        const saved = MapFile.migrate({ config, mapData }).map;
+        const text = MapFile.serialize({ ...saved, id: 'm1', name: 'Inn', mapData: { ...saved.mapData, costGrids: {} } });
+        expect(text).not.toContain('costGrids');
+        expect(MapFile.parse(text)).toMatchObject({ id: 'm1', name: 'Inn', config: { description: 'Old inn' } });
+    });
+
+    it('repairs the config of a current file', () => {
+        const { map } = MapFile.migrate({ format: 'neurpg-map', version: 1, map: { name: 'A', mapData, config: { ...config, tone: 'night', width: 99 } } });
+        expect(map.config).toMatchObject({ tone: 'Night', width: 60 });
+    });
+
+    it('rejects files that are not maps', () => {
+        expect(() => MapFile.migrate('text')).toThrow('Not a map file');
+        expect(() => MapFile.migrate({ some: 'json' })).toThrow('no tiles');
+        expect(() => MapFile.migrate({ format: 'neurpg-map', version: 1, map: { mapData: { tiles: 'x' }, config } })).toThrow('no tiles');
+        expect(() => MapFile.migrate({ format: 'neurpg-map', version: 1, map: { mapData, config: 'x' } })).toThrow('Invalid map config');
+        expect(() => MapFile.migrate({ format: 'neurpg-map', version: 1, map: { mapData, config: { ...config, rooms: [] } } })).toThrow('No valid rooms');
+        expect(() => MapFile.migrate({ format: 'neurpg-map', version: 1, map: { mapData: { ...mapData, width: 'wide' }, config } })).toThrow('width, height, rooms and seed');
+    });
+
+    it('rejects files from a newer version', () => {
+        expect(() => MapFile.migrate({ format: 'neurpg-map', version: SAVED_MAP_VERSION + 1, map: {} })).toThrow('is newer than this app');
+    });
+});
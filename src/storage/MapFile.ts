@@ -0,0 +1,121 @@
+import { SavedMap, SavedMapFile, SAVED_MAP_VERSION } from '../types/SavedMap';
+import { MapData } from '../types/MapData';
+import { DEFAULT_MAP_CONFIG } from '../types/MapConfig';
+import { describeConfigFix, isObject, TONES, validateMapConfig } from '../types/MapConfigSchema';
+
+// Versioned map files. Every stored map (library record or file) goes through `migrate`,
+// so maps saved with an older MapData still open.
+
+const FORMAT = 'neurpg-map';
+
+const isSize = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// Only the map itself is checked: tiles and rooms come from the generator and are trusted item by item
+const isMapData = (value: unknown): value is MapData =>
+    isObject(value) && Array.isArray(value.tiles) && Array.isArray(value.rooms) &&
+    isSize(value.width) && isSize(value.height) && typeof value.seed === 'number';
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: ((file: Record<string, unknown>) => Record<string, unknown>)[] = [
+    // 0 -> 1: before versioning, exports were a bare MapData or { config, mapData }
+    (file) => {
+        const mapData = isObject(file.mapData) ? file.mapData : file;
+        // Bare MapData: rebuild the config from the map's own rooms (ids, names, types and sizes carry over)
+        const config = isObject(file.config) ? file.config : {
+            ...DEFAULT_MAP_CONFIG,
+            width: mapData.width,
+            height: mapData.height,
+            rooms: Array.isArray(mapData.rooms) && mapData.rooms.length > 0 ? mapData.rooms : DEFAULT_MAP_CONFIG.rooms
+        };
+        const now = Date.now();
+        return {
+            format: FORMAT,
+            version: 1,
+            map: {
+                id: '',
+                name: file.name ?? config.description ?? 'Imported map',
+                prompt: file.prompt ?? '',
+                tone: config.tone ?? 'Normal',
+                config,
+                mapData: { ...mapData, seed: mapData.seed ?? config.seed ?? 0 },
+                createdAt: now,
+                updatedAt: now
+            }
+        };
+    }
+];
+
+export class MapFile {
+    /**
+     * Upgrades any known version to the current one, then checks the result (the config goes
+     * through the MapConfig schema). Throws on files that aren't maps or come from a newer
+     * version of the app.
+     */
+    static migrate(data: unknown): SavedMapFile {
+        if (!isObject(data)) throw new Error('[MapFile] Not a map file');
+
+        let file: Record<string, unknown> = data;
+        let version = file.format === FORMAT ? Number(file.version) : 0;
+        if (version === 0 && !Array.isArray((isObject(file.mapData) ? file.mapData : file).tiles)) {
+            throw new Error('[MapFile] Not a map file (no tiles)');
+        }
+        if (version > SAVED_MAP_VERSION) {
+            throw new Error(`[MapFile] Map file version ${version} is newer than this app (${SAVED_MAP_VERSION})`);
+        }
+
+        while (version < SAVED_MAP_VERSION) {
+            console.log(`[MapFile] Migrating map file v${version} -> v${version + 1}`);
+            file = MIGRATIONS[version](file);
+            version++;
+        }
+        return { format: FORMAT, version, map: this.checkMap(file.map) };
+    }
+
+    static parse(text: string): SavedMap {
+        return this.migrate(JSON.parse(text)).map;
+    }
+
+    static serialize(map: SavedMap): string {
+        const file: SavedMapFile = {
+            format: FORMAT,
+            version: SAVED_MAP_VERSION,
+            map: { ...map, mapData: this.stripDerived(map.mapData) }
+        };
+        return JSON.stringify(file);
+    }
+
+    /**
+     * Checks a migrated map: the map data must be complete, the config is repaired like AI output.
+     */
+    private static checkMap(map: unknown): SavedMap {
+        if (!isObject(map)) throw new Error('[MapFile] Map file has no map');
+        const { mapData } = map;
+        if (!isObject(mapData) || !Array.isArray(mapData.tiles)) throw new Error('[MapFile] Map file has no tiles');
+        if (!isMapData(mapData)) throw new Error('[MapFile] Map data needs width, height, rooms and seed');
+
+        const { config, fixes, errors } = validateMapConfig(map.config);
+        if (!config) throw new Error(`[MapFile] Invalid map config: ${errors.join('; ')}`);
+        if (fixes.length > 0) console.warn(`[MapFile] Config fixed: ${fixes.map(describeConfigFix).join('; ')}`);
+
+        const now = Date.now();
+        return {
+            id: typeof map.id === 'string' ? map.id : '',
+            name: typeof map.name === 'string' ? map.name : config.description,
+            prompt: typeof map.prompt === 'string' ? map.prompt : '',
+            tone: TONES.find(tone => tone === map.tone) ?? config.tone,
+            config,
+            mapData,
+            thumbnail: typeof map.thumbnail === 'string' ? map.thumbnail : undefined,
+            createdAt: typeof map.createdAt === 'number' ? map.createdAt : now,
+            updatedAt: typeof map.updatedAt === 'number' ? map.updatedAt : now
+        };
+    }
+
+    /**
+     * Drops data the app rebuilds on open (cost grids are the bulk of a large map).
+     */
+    static stripDerived(mapData: MapData): MapData {
+        const { costGrids: _costGrids, ...rest } = mapData;
+        return rest;
+    }
+}
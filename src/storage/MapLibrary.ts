@@ -0,0 +1,87 @@
+import { SavedMap, SAVED_MAP_VERSION } from '../types/SavedMap';
+import { MapFile } from './MapFile';
+
+const DB_NAME = 'neurpg';
+const DB_VERSION = 1;
+const STORE = 'maps';
+
+// Stored record: the map plus the file version it was written with
+type MapRecord = SavedMap & { version: number };
+
+/**
+ * Saved maps in IndexedDB. Records are migrated on read, like imported files.
+ */
+export class MapLibrary {
+    private static db: Promise<IDBDatabase> | null = null;
+
+    static async list(): Promise<SavedMap[]> {
+        const records = await this.run<MapRecord[]>('readonly', store => store.getAll());
+        return records
+            .map(record => this.fromRecord(record))
+            .filter((map): map is SavedMap => map !== null)
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    static async get(id: string): Promise<SavedMap | null> {
+        const record = await this.run<MapRecord | undefined>('readonly', store => store.get(id));
+        return record ? this.fromRecord(record) : null;
+    }
+
+    static async save(map: SavedMap): Promise<void> {
+        const record: MapRecord = { ...map, mapData: MapFile.stripDerived(map.mapData), version: SAVED_MAP_VERSION };
+        await this.run('readwrite', store => store.put(record));
+    }
+
+    static async rename(id: string, name: string): Promise<void> {
+        const map = await this.get(id);
+        if (!map) return;
+        await this.save({ ...map, name, updatedAt: Date.now() });
+    }
+
+    static async remove(id: string): Promise<void> {
+        await this.run('readwrite', store => store.delete(id));
+    }
+
+    static newId(): string {
+        return `map_${Date.now()}_${Math.floor(Math.random() * 1e6)}`;
+    }
+
+    private static fromRecord(record: MapRecord): SavedMap | null {
+        try {
+            const { version, ...map } = record;
+            const migrated = MapFile.migrate({ format: 'neurpg-map', version, map }).map;
+            return { ...migrated, id: record.id };
+        } catch (e) {
+            console.warn(`[MapLibrary] Skipping unreadable map ${record.id}:`, e);
+            return null;
+        }
+    }
+
+    private static open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(STORE)) {
+                        request.result.createObjectStore(STORE, { keyPath: 'id' });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.db = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.db;
+    }
+
+    private static async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request = action(db.transaction(STORE, mode).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
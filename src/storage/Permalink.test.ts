@@ -0,0 +1,66 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { Permalink } from './Permalink';
+import { DEFAULT_MAP_CONFIG } from '../types/MapConfig';
+import { MapData, TileData } from '../types/MapData';
+import { SeededRandom } from '../generators/SeededRandom';
+
+const linkHash = (url: string) => url.slice(url.indexOf('#'));
+
+// Floor everywhere, a wall ring, and whatever furniture the test adds
+const makeMap = (size: number, furniture: TileData[]): MapData => {
+    const tiles: TileData[] = [];
+    for (let y = 0; y < size; y++) for (let x = 0; x < size; x++) tiles.push({ x, y, sprite: 'floor_wood', layer: 'floor' });
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            if (x === 0 || y === 0 || x === size - 1 || y === size - 1) tiles.push({ x, y, sprite: 'wall_brick', layer: 'wall' });
+        }
+    }
+    return {
+        width: size,
+        height: size,
+        seed: 77,
+        tiles: [...tiles, ...furniture],
+        rooms: [{ id: 'r1', name: 'Hall', type: 'hall', x: 1, y: 1, width: size - 2, height: size - 2, zones: [] }]
+    };
+};
+
+describe('Permalink', () => {
+    beforeAll(() => {
+        vi.stubGlobal('location', { origin: 'https://example.test', pathname: '/' });
+    });
+
+    it('ignores hashes that are not permalinks', async () => {
+        expect(await Permalink.read('#section')).toBeNull();
+    });
+
+    it('round-trips a map, its config and tone', async () => {
+        const mapData = makeMap(8, [
+            { x: 2, y: 3, sprite: 'bed', layer: 'furniture', rotation: 90, width: 2, height: 1 },
+            { x: 5, y: 5, sprite: 'door_wood', layer: 'furniture' }
+        ]);
+        const { url, dropped } = await Permalink.create({ ...DEFAULT_MAP_CONFIG, description: 'Inn' }, 'Night', mapData);
+        expect(url.startsWith('https://example.test/#map=')).toBe(true);
+        expect(dropped).toEqual([]);
+
+        const link = await Permalink.read(linkHash(url));
+        expect(link?.tone).toBe('Night');
+        expect(link?.config).toMatchObject({ description: 'Inn', seed: 77 });
+        // Zones are dropped, everything else comes back as it went in
+        expect(link?.mapData).toEqual({ ...mapData, rooms: [{ ...mapData.rooms[0], zones: undefined }] });
+    });
+
+    it('drops decoration first when the map does not fit', async () => {
+        const rng = new SeededRandom(1);
+        const plants: TileData[] = [];
+        for (let i = 0; i < 4000; i++) {
+            plants.push({ x: rng.int(1, 58), y: rng.int(1, 58), sprite: ['tree', 'bush', 'flower'][rng.int(0, 2)], layer: 'furniture', rotation: rng.int(0, 3) * 90 });
+        }
+        const mapData = makeMap(60, [...plants, { x: 30, y: 0, sprite: 'door_wood', layer: 'furniture' }]);
+
+        const { url, dropped } = await Permalink.create(DEFAULT_MAP_CONFIG, 'Normal', mapData);
+        expect(dropped).toEqual(['decoration']);
+        const tiles = (await Permalink.read(linkHash(url)))?.mapData?.tiles ?? [];
+        expect(tiles.filter(tile => tile.layer === 'furniture').map(tile => tile.sprite)).toEqual(['door_wood']);
+    });
+
+});
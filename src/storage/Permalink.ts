@@ -0,0 +1,204 @@
+import { MapConfig, ToneType } from '../types/MapConfig';
+import { MapData, TileData, RoomData } from '../types/MapData';
+
+// Shareable links: the map travels in the URL fragment (#map=...), never to a server.
+// MapData is packed into per-layer run-length grids, deflated and base64url encoded.
+
+const HASH_PREFIX = '#map=';
+const PACK_VERSION = 1;
+const MAX_FRAGMENT = 16000; // Chars. Browsers take more, chat apps and QR codes don't
+
+// Nature dressing: first to go when a map doesn't fit
+const DECORATION = /tree|plant|reed|mushroom|fung|flower|bush|grass/i;
+
+type LayerGrids = Record<number, number[]>; // level -> RLE [count, paletteIndex + 1 (0 = empty), ...]
+
+interface PackedMap {
+    w: number;
+    h: number;
+    seed: number;
+    levels?: number[];
+    stairs?: MapData['stairs'];
+    rooms: RoomData[];
+    palette: string[];
+    floor: LayerGrids;
+    wall: LayerGrids;
+    furniture: number[][]; // [x, y, paletteIndex, level, rotation, width, height]
+}
+
+export interface PermalinkPayload {
+    v: number;
+    config: MapConfig;
+    tone: ToneType;
+    map?: PackedMap; // Omitted when even the reduced map is too large: regenerate from config.seed
+}
+
+export interface DecodedPermalink {
+    config: MapConfig;
+    tone: ToneType;
+    mapData: MapData | null; // null = regenerate from the config (same seed, same map)
+}
+
+export interface PermalinkResult {
+    url: string;
+    dropped: string[]; // What had to go to fit, for the UI
+}
+
+export class Permalink {
+    /**
+     * Builds the link, dropping detail step by step until it fits.
+     */
+    static async create(config: MapConfig, tone: ToneType, mapData: MapData): Promise<PermalinkResult> {
+        const base = `${location.origin}${location.pathname}`;
+        const seeded = { ...config, seed: mapData.seed };
+
+        const steps: { label: string, keep: (tile: TileData) => boolean }[] = [
+            { label: '', keep: () => true },
+            { label: 'decoration', keep: tile => tile.layer !== 'furniture' || !DECORATION.test(tile.sprite) },
+            { label: 'furniture', keep: tile => tile.layer !== 'furniture' || /door|stair/.test(tile.sprite) }
+        ];
+
+        const dropped: string[] = [];
+        for (const step of steps) {
+            if (step.label) dropped.push(step.label);
+            const packed = this.pack({ ...mapData, tiles: mapData.tiles.filter(step.keep) });
+            const fragment = await this.encode({ v: PACK_VERSION, config: seeded, tone, map: packed });
+            if (fragment.length <= MAX_FRAGMENT) return { url: `${base}${HASH_PREFIX}${fragment}`, dropped };
+        }
+
+        // Config only: the generator is deterministic for a given seed
+        console.warn('[Permalink] Map too large for a URL, linking the config + seed only');
+        const fragment = await this.encode({ v: PACK_VERSION, config: seeded, tone });
+        return { url: `${base}${HASH_PREFIX}${fragment}`, dropped: [...dropped, 'map data (regenerated from seed)'] };
+    }
+
+    /**
+     * Reads a permalink from a location hash. Returns null when the hash isn't one.
+     */
+    static async read(hash: string): Promise<DecodedPermalink | null> {
+        if (!hash.startsWith(HASH_PREFIX)) return null;
+
+        const payload = await this.decode(hash.slice(HASH_PREFIX.length));
+        if (payload.v !== PACK_VERSION) throw new Error(`[Permalink] Unsupported link version ${payload.v}`);
+        return {
+            config: payload.config,
+            tone: payload.tone,
+            mapData: payload.map ? this.unpack(payload.map) : null
+        };
+    }
+
+    private static pack(mapData: MapData): PackedMap {
+        const palette: string[] = [];
+        const paletteIndex = new Map<string, number>();
+        const indexOf = (sprite: string) => {
+            if (!paletteIndex.has(sprite)) {
+                paletteIndex.set(sprite, palette.length);
+                palette.push(sprite);
+            }
+            return paletteIndex.get(sprite)!;
+        };
+
+        // Floor/wall: last tile per cell wins, like the renderer draws it
+        const cellsPerLevel = (layer: 'floor' | 'wall') => {
+            const grids: Record<number, number[]> = {};
+            mapData.tiles.forEach(tile => {
+                if (tile.layer !== layer) return;
+                const level = tile.level ?? 0;
+                if (!grids[level]) grids[level] = new Array(mapData.width * mapData.height).fill(0);
+                grids[level][tile.y * mapData.width + tile.x] = indexOf(tile.sprite) + 1;
+            });
+            const rle: LayerGrids = {};
+            Object.entries(grids).forEach(([level, cells]) => { rle[Number(level)] = this.runLength(cells); });
+            return rle;
+        };
+
+        const floor = cellsPerLevel('floor');
+        const wall = cellsPerLevel('wall');
+        const furniture = mapData.tiles
+            .filter(tile => tile.layer === 'furniture')
+            .map(tile => [tile.x, tile.y, indexOf(tile.sprite), tile.level ?? 0, tile.rotation ?? 0, tile.width ?? 1, tile.height ?? 1]);
+
+        return {
+            w: mapData.width,
+            h: mapData.height,
+            seed: mapData.seed,
+            levels: mapData.levels,
+            stairs: mapData.stairs,
+            // Zones only matter while furnishing
+            rooms: mapData.rooms.map(({ zones: _zones, ...room }) => room),
+            palette,
+            floor,
+            wall,
+            furniture
+        };
+    }
+
+    private static unpack(packed: PackedMap): MapData {
+        const multiLevel = !!packed.levels;
+        const tiles: TileData[] = [];
+
+        const expand = (grids: LayerGrids, layer: 'floor' | 'wall') => {
+            Object.entries(grids).forEach(([levelKey, rle]) => {
+                const level = Number(levelKey);
+                let cell = 0;
+                for (let i = 0; i < rle.length; i += 2) {
+                    const [count, value] = [rle[i], rle[i + 1]];
+                    for (let n = 0; n < count; n++, cell++) {
+                        if (value === 0) continue;
+                        const tile: TileData = { x: cell % packed.w, y: Math.floor(cell / packed.w), sprite: packed.palette[value - 1], layer };
+                        if (multiLevel) tile.level = level;
+                        tiles.push(tile);
+                    }
+                }
+            });
+        };
+        expand(packed.floor, 'floor');
+        expand(packed.wall, 'wall');
+
+        packed.furniture.forEach(([x, y, sprite, level, rotation, width, height]) => {
+            const tile: TileData = { x, y, sprite: packed.palette[sprite], layer: 'furniture' };
+            if (multiLevel) tile.level = level;
+            if (rotation) tile.rotation = rotation;
+            if (width !== 1 || height !== 1) {
+                tile.width = width;
+                tile.height = height;
+            }
+            tiles.push(tile);
+        });
+
+        const mapData: MapData = { width: packed.w, height: packed.h, tiles, rooms: packed.rooms, seed: packed.seed };
+        if (packed.levels) mapData.levels = packed.levels;
+        if (packed.stairs) mapData.stairs = packed.stairs;
+        return mapData;
+    }
+
+    private static runLength(cells: number[]): number[] {
+        const rle: number[] = [];
+        let i = 0;
+        while (i < cells.length) {
+            let count = 1;
+            while (i + count < cells.length && cells[i + count] === cells[i]) count++;
+            rle.push(count, cells[i]);
+            i += count;
+        }
+        return rle;
+    }
+
+    private static async encode(payload: PermalinkPayload): Promise<string> {
+        const stream = new Blob([JSON.stringify(payload)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+        const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+
+    private static async decode(fragment: string): Promise<PermalinkPayload> {
+        const binary = atob(fragment.replace(/-/g, '+').replace(/_/g, '/'));
+        const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+        const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        return JSON.parse(await new Response(stream).text()) as PermalinkPayload;
+    }
+}
@@ -0,0 +1,69 @@
+import { MapData } from './MapData';
+import { MapConfig } from './MapConfig';
+import { ConfigFix } from './MapConfigSchema';
+
+// Defines the diagnostics returned next to MapData so failures reach the user
+export interface DroppedRoom {
+    id: string;
+    name: string;
+    reason: string;
+}
+
+export interface UnplacedFurniture {
+    roomId: string;
+    item: string;
+    reason: 'unknown_item' | 'no_space' | 'constraint' | 'over_limit';
+}
+
+export interface MissingDoor {
+    from: string; // Room ID
+    to: string; // Room ID
+}
+
+export interface MissingStairs {
+    from: string; // Room ID, lower level
+    to: string; // Room ID, upper level
+    // no_landing: no free cell both rooms cover; levels_not_adjacent: stairs only join neighbouring levels
+    reason: 'no_landing' | 'levels_not_adjacent';
+}
+
+export interface MirroredRoom {
+    id: string; // Generated room ID (see mirrorRoomId)
+    source: string; // Config room ID it mirrors
+}
+
+export interface GenerationReport {
+    droppedRooms: DroppedRoom[];
+    unplacedFurniture: UnplacedFurniture[];
+    missingDoors: MissingDoor[];
+    missingStairs: MissingStairs[]; // Connections between levels without a staircase
+    ignoredLevels: string[]; // Room IDs whose `level` was ignored (single-level map types)
+    mirroredRooms: MirroredRoom[]; // Rooms the generator added as mirror images ('geometric')
+    unreachableRooms: string[]; // Room IDs not reachable from the entrance
+    configFixes: ConfigFix[]; // Repairs made to the config before generating
+}
+
+export interface GenerationResult {
+    mapData: MapData;
+    report: GenerationReport;
+}
+
+export const createEmptyReport = (): GenerationReport => ({
+    droppedRooms: [],
+    unplacedFurniture: [],
+    missingDoors: [],
+    missingStairs: [],
+    ignoredLevels: [],
+    mirroredRooms: [],
+    unreachableRooms: [],
+    configFixes: []
+});
+
+/**
+ * For generators without levels: rooms asking for another floor are built on the only one.
+ */
+export const reportIgnoredLevels = (config: MapConfig, report: GenerationReport) => {
+    config.rooms.forEach(room => {
+        if ((room.level ?? 0) !== 0) report.ignoredLevels.push(room.id);
+    });
+};
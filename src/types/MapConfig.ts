@@ -1,6 +1,10 @@
-// Defines the schema that Gemini must adhere to
-export type MapType = 'structured' | 'organic' | 'geometric';
-export type ToneType = 'Normal' | 'Sepia' | 'Night' | 'Toxic';
+import { MAP_TYPES, TONES, HULL_SHAPE_NAMES, LAYOUT_STRATEGIES } from './MapConfigSchema.js';
+
+// Defines the schema that Gemini must adhere to (validated at runtime by MapConfigSchema)
+export type MapType = typeof MAP_TYPES[number];
+export type ToneType = typeof TONES[number];
+export type HullShape = typeof HULL_SHAPE_NAMES[number];
+export type LayoutStrategy = typeof LAYOUT_STRATEGIES[number];
 
 export interface RoomConfig {
   id: string;
@@ -10,6 +14,7 @@ export interface RoomConfig {
   furniture: string[]; // List of furniture to place
   width?: number; // Optional override from AI
   height?: number; // Optional override from AI
+  level?: number; // Floor: 0 = ground (default), -1 = basement, 1 = upper floor
 }
 
 export interface MapConfig {
@@ -19,14 +24,17 @@ export interface MapConfig {
   height: number; // Suggested height in tiles
   rooms: RoomConfig[];
   description: string; // Narrative description
+  seed?: number; // Optional PRNG seed. Same config + seed = same map
+  shape?: HullShape; // 'geometric' only. Inferred from the description if omitted
+  layout?: LayoutStrategy; // 'structured' only. Picked from the room graph if omitted
 }
 
-// Default config for testing
+// Default config for testing. Must pass validateMapConfig without fixes (one room, 30-60 tiles)
 export const DEFAULT_MAP_CONFIG: MapConfig = {
   type: 'structured',
   tone: 'Normal',
-  width: 20,
-  height: 20,
-  rooms: [],
-  description: 'Empty map'
+  width: 40,
+  height: 40,
+  rooms: [{ id: 'r1', name: 'Room', type: 'room', connections: [], furniture: [] }],
+  description: 'Single room'
 };
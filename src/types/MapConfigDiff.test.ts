@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MapConfig, RoomConfig } from './MapConfig';
+import { describeConfigChanges, stabilizeRoomIds } from './MapConfigDiff';
+
+const room = (id: string, name: string, connections: string[] = [], extra: Partial<RoomConfig> = {}): RoomConfig =>
+    ({ id, name, type: 'room', connections, furniture: [], ...extra });
+
+const map = (rooms: RoomConfig[], extra: Partial<MapConfig> = {}): MapConfig =>
+    ({ type: 'structured', tone: 'Normal', width: 40, height: 40, description: '', rooms, ...extra });
+
+describe('stabilizeRoomIds', () => {
+    it('gives renumbered rooms their old id back and follows connections', () => {
+        const previous = map([room('hall', 'Hall', ['k']), room('k', 'Kitchen', ['hall'])], { seed: 7 });
+        const next = map([room('r1', 'Hall', ['r2']), room('r2', 'kitchen', ['r1']), room('r3', 'Pantry', ['r2'])]);
+
+        const restored = stabilizeRoomIds(previous, next);
+
+        expect(next.rooms.map(r => r.id)).toEqual(['hall', 'k', 'r3']);
+        expect(next.rooms[0].connections).toEqual(['k']);
+        expect(next.rooms[2].connections).toEqual(['k']);
+        expect(next.seed).toBe(7);
+        expect(restored).toHaveLength(2);
+    });
+
+    it('leaves kept ids and an explicit seed alone', () => {
+        const previous = map([room('a', 'Hall')], { seed: 7 });
+        const next = map([room('a', 'Hall')], { seed: 9 });
+        expect(stabilizeRoomIds(previous, next)).toEqual([]);
+        expect(next.seed).toBe(9);
+    });
+});
+
+describe('describeConfigChanges', () => {
+    it('lists map, room, added and removed changes', () => {
+        const previous = map([
+            room('hall', 'Hall', ['k', 'c']),
+            room('k', 'Kitchen', ['hall'], { width: 6, height: 5, furniture: ['stove'] }),
+            room('c', 'Cellar', ['hall'])
+        ]);
+        const next = map([
+            room('hall', 'Hall', ['k', 'p']),
+            room('k', 'Kitchen', ['hall', 'p'], { width: 8, height: 6, furniture: ['stove', 'table'] }),
+            room('p', 'Pantry', ['k'])
+        ], { tone: 'Night' });
+
+        expect(describeConfigChanges(previous, next)).toEqual([
+            'Map tone: Normal -> Night',
+            'Kitchen: 6x5 -> 8x6; furniture: +table',
+            'Added Pantry (next to Kitchen)',
+            'Removed Cellar'
+        ]);
+    });
+
+    it('is empty for identical configs', () => {
+        const config = map([room('a', 'Hall', [], { furniture: ['bed', 'bed'] })]);
+        expect(describeConfigChanges(config, structuredClone(config))).toEqual([]);
+    });
+});
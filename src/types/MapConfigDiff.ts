@@ -0,0 +1,90 @@
+import type { MapConfig, RoomConfig } from './MapConfig.js';
+
+// Helpers for refinement (/api/refine): a config is edited, not regenerated.
+// No runtime imports: the serverless function loads this file as plain ESM.
+
+/**
+ * Keeps room ids stable across an edit: a room the model re-numbered but kept by name
+ * gets its old id back (connections follow). Also keeps the seed, so unchanged rooms keep
+ * their layout. Mutates `next`; returns one line per id restored.
+ */
+export const stabilizeRoomIds = (previous: MapConfig, next: MapConfig): string[] => {
+    const restored: string[] = [];
+    const nextIds = new Set(next.rooms.map(r => r.id));
+    const renames = new Map<string, string>();
+
+    next.rooms.forEach(room => {
+        if (previous.rooms.some(p => p.id === room.id)) return;
+        const old = previous.rooms.find(p => p.name.toLowerCase() === room.name.toLowerCase() && !nextIds.has(p.id));
+        if (!old) return;
+        renames.set(room.id, old.id);
+        nextIds.add(old.id);
+        restored.push(`${room.name}: id '${room.id}' -> '${old.id}'`);
+    });
+
+    if (renames.size > 0) {
+        next.rooms.forEach(room => {
+            room.id = renames.get(room.id) ?? room.id;
+            room.connections = room.connections.map(id => renames.get(id) ?? id);
+        });
+    }
+
+    if (next.seed === undefined && previous.seed !== undefined) next.seed = previous.seed;
+    return restored;
+};
+
+const sameList = (a: string[], b: string[]) => [...a].sort().join('|') === [...b].sort().join('|');
+
+// What changed in one room, e.g. ['6x5 -> 8x6', 'furniture: +bookshelf']
+const describeRoomChanges = (before: RoomConfig, after: RoomConfig, nameOf: (id: string) => string, isKept: (id: string) => boolean): string[] => {
+    const changes: string[] = [];
+    if (before.name !== after.name) changes.push(`renamed from '${before.name}'`);
+    if (before.type !== after.type) changes.push(`type ${before.type} -> ${after.type}`);
+    if (before.width !== after.width || before.height !== after.height) {
+        changes.push(`${before.width ?? '?'}x${before.height ?? '?'} -> ${after.width ?? '?'}x${after.height ?? '?'}`);
+    }
+    if ((before.level ?? 0) !== (after.level ?? 0)) changes.push(`level ${before.level ?? 0} -> ${after.level ?? 0}`);
+
+    const listDiff = (label: string, a: string[], b: string[], show: (v: string) => string = v => v) => {
+        if (sameList(a, b)) return;
+        const added = b.filter(v => !a.includes(v)).map(v => `+${show(v)}`);
+        const removed = a.filter(v => !b.includes(v)).map(v => `-${show(v)}`);
+        // Same items, different counts (e.g. a second bed)
+        changes.push(`${label}: ${[...added, ...removed].join(', ') || `${a.length} -> ${b.length} items`}`);
+    };
+    listDiff('furniture', before.furniture, after.furniture);
+    // Links to added/removed rooms are already in their own 'Added'/'Removed' lines
+    const kept = (ids: string[]) => ids.filter(isKept);
+    listDiff('connections', kept(before.connections), kept(after.connections), nameOf);
+    return changes;
+};
+
+/**
+ * Human readable change list between two configs, for the refinement history.
+ */
+export const describeConfigChanges = (previous: MapConfig, next: MapConfig): string[] => {
+    const changes: string[] = [];
+    const nameOf = (id: string) => next.rooms.find(r => r.id === id)?.name ?? previous.rooms.find(r => r.id === id)?.name ?? id;
+    const isKept = (id: string) => previous.rooms.some(r => r.id === id) && next.rooms.some(r => r.id === id);
+
+    (['type', 'tone', 'shape', 'layout', 'width', 'height'] as const).forEach(key => {
+        if (previous[key] !== next[key]) changes.push(`Map ${key}: ${previous[key] ?? 'auto'} -> ${next[key] ?? 'auto'}`);
+    });
+
+    next.rooms.forEach(room => {
+        const before = previous.rooms.find(p => p.id === room.id);
+        if (!before) {
+            const links = room.connections.map(nameOf).join(', ');
+            changes.push(`Added ${room.name}${links ? ` (next to ${links})` : ''}`);
+            return;
+        }
+        const roomChanges = describeRoomChanges(before, room, nameOf, isKept);
+        if (roomChanges.length > 0) changes.push(`${room.name}: ${roomChanges.join('; ')}`);
+    });
+
+    previous.rooms.forEach(room => {
+        if (!next.rooms.some(r => r.id === room.id)) changes.push(`Removed ${room.name}`);
+    });
+
+    return changes;
+};
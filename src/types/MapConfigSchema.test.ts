@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { validateMapConfig } from './MapConfigSchema';
+import { DEFAULT_MAP_CONFIG } from './MapConfig';
+
+const room = (id: string, connections: string[] = [], extra: object = {}) => ({ id, name: `Room ${id}`, type: 'room', connections, furniture: [], ...extra });
+
+describe('validateMapConfig', () => {
+    it('accepts a valid config without fixes', () => {
+        const { config, fixes, errors } = validateMapConfig({
+            type: 'structured', tone: 'Night', width: 40, height: 40, description: 'Keep',
+            rooms: [room('a', ['b']), room('b', ['a'])]
+        });
+        expect(errors).toEqual([]);
+        expect(fixes).toEqual([]);
+        expect(config?.rooms.map(r => r.id)).toEqual(['a', 'b']);
+    });
+
+    it('rejects anything that is not an object', () => {
+        for (const input of [null, 'map', [], 42]) {
+            const { config, errors } = validateMapConfig(input);
+            expect(config).toBeNull();
+            expect(errors).toEqual(['Config is not an object']);
+        }
+    });
+
+    it('rejects configs it cannot repair', () => {
+        const valid = { type: 'dungeon', tone: 'Normal', width: 40, height: 40, description: '', rooms: [room('a')] };
+        expect(validateMapConfig({ ...valid, type: 'spaceship' })).toMatchObject({ config: null, errors: [expect.stringContaining("Unknown map type 'spaceship'")] });
+        expect(validateMapConfig({ ...valid, rooms: undefined })).toMatchObject({ config: null, errors: ['Rooms are missing or not a list'] });
+        expect(validateMapConfig({ ...valid, rooms: [] })).toMatchObject({ config: null, errors: ['No valid rooms'] });
+        expect(validateMapConfig({ ...valid, rooms: ['kitchen', null] })).toMatchObject({ config: null, errors: ['No valid rooms'] });
+    });
+
+    it('accepts the default config as is', () => {
+        expect(validateMapConfig(DEFAULT_MAP_CONFIG)).toEqual({ config: DEFAULT_MAP_CONFIG, fixes: [], errors: [] });
+    });
+
+    it('coerces enums and numbers, defaults missing fields', () => {
+        const { config, fixes } = validateMapConfig({ type: 'Organic', tone: 'sepia', width: '45', rooms: [room('a')] });
+        expect(config).toMatchObject({ type: 'organic', tone: 'Sepia', width: 45, height: 40, description: '' });
+        expect(fixes.map(f => `${f.path}:${f.action}`)).toEqual(['type:coerced', 'tone:coerced', 'width:coerced', 'height:defaulted', 'description:defaulted']);
+    });
+
+    it('clamps the map and room sizes', () => {
+        const { config, fixes } = validateMapConfig({ width: 100, height: 10, description: '', rooms: [room('a', [], { width: 80, height: 1 })] });
+        expect(config).toMatchObject({ width: 60, height: 30 });
+        expect(config?.rooms[0]).toMatchObject({ width: 58, height: 2 });
+        expect(fixes.filter(f => f.action === 'clamped').map(f => f.path)).toEqual(['width', 'height', 'rooms[0].width', 'rooms[0].height']);
+    });
+
+    it('renames duplicate ids and drops unknown, duplicate and self links', () => {
+        const { config, fixes } = validateMapConfig({
+            width: 40, height: 40, description: '',
+            rooms: [room('a', ['a', 'b', 'b', 'ghost']), room('b', ['a']), room('b', ['a'])]
+        });
+        expect(config?.rooms.map(r => r.id)).toEqual(['a', 'b', 'b_2']);
+        expect(config?.rooms[0].connections).toEqual(['b']);
+        expect(fixes.some(f => f.path === 'rooms[2].id' && f.action === 'renamed')).toBe(true);
+        expect(fixes.some(f => f.path === 'rooms[0].connections' && f.action === 'removed')).toBe(true);
+    });
+
+    it('connects unreachable rooms to the first room', () => {
+        const { config, fixes } = validateMapConfig({
+            width: 40, height: 40, description: '',
+            rooms: [room('hub', ['a']), room('a', ['hub']), room('island', ['far']), room('far', ['island'])]
+        });
+        expect(config?.rooms[0].connections).toEqual(['a', 'island']);
+        expect(config?.rooms[2].connections).toContain('hub');
+        // 'far' hangs off the island and is reachable through it
+        expect(config?.rooms[3].connections).toEqual(['island']);
+        expect(fixes.filter(f => f.action === 'repaired')).toHaveLength(1);
+    });
+
+    it('removes invalid seeds and keeps valid ones', () => {
+        expect(validateMapConfig({ width: 40, height: 40, description: '', rooms: [room('a')], seed: 12 }).config?.seed).toBe(12);
+        const { config, fixes } = validateMapConfig({ width: 40, height: 40, description: '', rooms: [room('a')], seed: -3 });
+        expect(config?.seed).toBeUndefined();
+        expect(fixes).toContainEqual(expect.objectContaining({ path: 'seed', action: 'removed' }));
+    });
+});
@@ -0,0 +1,241 @@
+import type { MapConfig, RoomConfig } from './MapConfig.js';
+
+// Runtime schema for MapConfig, shared by the client (worker) and the API (api/gemini.ts).
+// No runtime imports: the serverless function loads this file as plain ESM.
+// Import paths keep the `.js` extension, api/tsconfig.json checks them with nodenext resolution.
+
+export const MAP_TYPES = ['structured', 'organic', 'geometric', 'dungeon'] as const;
+export const TONES = ['Normal', 'Sepia', 'Night', 'Toxic'] as const;
+export const HULL_SHAPE_NAMES = ['ellipse', 'cross', 'octagon', 'ring', 'ship'] as const;
+export const LAYOUT_STRATEGIES = ['spine', 'hub', 'cluster', 'force'] as const;
+
+// Map size rule the AI is asked to follow (tiles, both axes)
+export const MAP_SIZE = { min: 30, max: 60, fallback: 40 };
+const MIN_ROOM_SIZE = 2; // Corridors are 2 wide
+
+export interface ConfigFix {
+    path: string; // e.g. 'rooms[2].width'
+    action: 'coerced' | 'defaulted' | 'removed' | 'clamped' | 'renamed' | 'repaired';
+    message: string;
+}
+
+export interface ConfigValidation {
+    config: MapConfig | null; // null = unusable, see errors
+    fixes: ConfigFix[];
+    errors: string[];
+}
+
+// Plain JSON object (not null, not an array)
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toInteger = (value: unknown): number | null => {
+    const n = typeof value === 'string' ? Number(value.trim()) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? Math.round(n) : null;
+};
+
+// Case-insensitive enum match ("Structured" -> 'structured')
+const matchEnum = <T extends string>(values: readonly T[], value: unknown): T | null => {
+    if (typeof value !== 'string') return null;
+    return values.find(v => v.toLowerCase() === value.trim().toLowerCase()) ?? null;
+};
+
+/**
+ * Validates, coerces and repairs a MapConfig (usually AI output).
+ * Never throws: returns the repaired config plus every fix applied, or errors when unusable
+ * (not an object, an unknown map type, no valid rooms). Callers must refuse a null config.
+ */
+export const validateMapConfig = (input: unknown): ConfigValidation => {
+    const fixes: ConfigFix[] = [];
+    const errors: string[] = [];
+    const fix = (path: string, action: ConfigFix['action'], message: string) => fixes.push({ path, action, message });
+
+    if (!isObject(input)) {
+        return { config: null, fixes, errors: ['Config is not an object'] };
+    }
+
+    // 1. Enums
+    const enumField = <T extends string>(key: string, values: readonly T[], fallback: T | null): T | undefined => {
+        const raw = input[key];
+        if (raw === undefined || raw === null) {
+            if (fallback !== null) fix(key, 'defaulted', `Missing, using '${fallback}'`);
+            return fallback ?? undefined;
+        }
+        const value = matchEnum(values, raw);
+        if (value === null) {
+            if (fallback !== null) fix(key, 'defaulted', `Unknown value '${String(raw)}', using '${fallback}'`);
+            else fix(key, 'removed', `Unknown value '${String(raw)}'`);
+            return fallback ?? undefined;
+        }
+        if (value !== raw) fix(key, 'coerced', `'${String(raw)}' -> '${value}'`);
+        return value;
+    };
+
+    // A missing type defaults, an unknown one can't be guessed: every generator builds something different
+    const type = enumField('type', MAP_TYPES, input.type === undefined || input.type === null ? 'structured' : null);
+    if (!type) errors.push(`Unknown map type '${String(input.type)}' (expected ${MAP_TYPES.join(', ')})`);
+    const tone = enumField('tone', TONES, 'Normal')!;
+    const shape = enumField('shape', HULL_SHAPE_NAMES, null);
+    const layout = enumField('layout', LAYOUT_STRATEGIES, null);
+
+    // 2. Map size (30-60)
+    const dimension = (key: 'width' | 'height'): number => {
+        const value = toInteger(input[key]);
+        if (value === null) {
+            fix(key, 'defaulted', `Missing or not a number, using ${MAP_SIZE.fallback}`);
+            return MAP_SIZE.fallback;
+        }
+        const clamped = Math.min(MAP_SIZE.max, Math.max(MAP_SIZE.min, value));
+        if (clamped !== value) fix(key, 'clamped', `${value} is outside ${MAP_SIZE.min}-${MAP_SIZE.max}, using ${clamped}`);
+        else if (value !== input[key]) fix(key, 'coerced', `'${String(input[key])}' -> ${value}`);
+        return clamped;
+    };
+    const width = dimension('width');
+    const height = dimension('height');
+
+    // 3. Rooms
+    let rawRooms: unknown[] = [];
+    if (Array.isArray(input.rooms)) rawRooms = input.rooms;
+    else errors.push('Rooms are missing or not a list');
+
+    const rooms: RoomConfig[] = [];
+    const ids = new Set<string>();
+    rawRooms.forEach((raw, i) => {
+        const path = `rooms[${i}]`;
+        if (!isObject(raw)) {
+            fix(path, 'removed', 'Not an object');
+            return;
+        }
+
+        // Ids: present, strings, unique
+        let id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : typeof raw.id === 'number' ? String(raw.id) : '';
+        if (!id) {
+            id = `r${i + 1}`;
+            fix(`${path}.id`, 'defaulted', `Missing, using '${id}'`);
+        }
+        if (ids.has(id)) {
+            let n = 2;
+            while (ids.has(`${id}_${n}`)) n++;
+            fix(`${path}.id`, 'renamed', `Duplicate id '${id}', renamed to '${id}_${n}'`);
+            id = `${id}_${n}`;
+        }
+        ids.add(id);
+
+        const roomType = typeof raw.type === 'string' && raw.type.trim() ? raw.type.trim() : 'room';
+        if (roomType !== raw.type) fix(`${path}.type`, 'defaulted', `Missing, using '${roomType}'`);
+
+        const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : roomType;
+        if (name !== raw.name) fix(`${path}.name`, 'defaulted', `Missing, using '${name}'`);
+
+        const stringList = (key: 'connections' | 'furniture'): string[] => {
+            if (raw[key] === undefined) return [];
+            if (!Array.isArray(raw[key])) {
+                fix(`${path}.${key}`, 'defaulted', 'Not a list, using []');
+                return [];
+            }
+            const list = (raw[key] as unknown[]).filter((v): v is string | number => typeof v === 'string' || typeof v === 'number').map(String);
+            if (list.length !== raw[key].length) fix(`${path}.${key}`, 'removed', `${raw[key].length - list.length} non-text entries`);
+            return list;
+        };
+
+        const room: RoomConfig = { id, name, type: roomType, connections: stringList('connections'), furniture: stringList('furniture') };
+
+        // Optional size: integers, at least a corridor, smaller than the map (walls need a tile)
+        for (const [key, limit] of [['width', width - 2], ['height', height - 2]] as const) {
+            if (raw[key] === undefined || raw[key] === null) continue;
+            const value = toInteger(raw[key]);
+            if (value === null) {
+                fix(`${path}.${key}`, 'removed', `'${String(raw[key])}' is not a number`);
+                continue;
+            }
+            const clamped = Math.min(limit, Math.max(MIN_ROOM_SIZE, value));
+            if (clamped !== value) fix(`${path}.${key}`, 'clamped', `${value} doesn't fit the ${width}x${height} map, using ${clamped}`);
+            else if (value !== raw[key]) fix(`${path}.${key}`, 'coerced', `'${String(raw[key])}' -> ${value}`);
+            room[key] = clamped;
+        }
+
+        if (raw.level !== undefined && raw.level !== null) {
+            const level = toInteger(raw.level);
+            if (level === null) fix(`${path}.level`, 'removed', `'${String(raw.level)}' is not a number`);
+            else {
+                if (level !== raw.level) fix(`${path}.level`, 'coerced', `'${String(raw.level)}' -> ${level}`);
+                room.level = level;
+            }
+        }
+
+        rooms.push(room);
+    });
+
+    if (Array.isArray(input.rooms) && rooms.length === 0) errors.push('No valid rooms');
+    if (!type || errors.length > 0) return { config: null, fixes, errors };
+
+    // 4. Connections: known ids only, no self links, no duplicates
+    rooms.forEach((room, i) => {
+        const valid = [...new Set(room.connections)].filter(target => target !== room.id && ids.has(target));
+        if (valid.length !== room.connections.length) {
+            const removed = room.connections.filter(target => !valid.includes(target) || target === room.id);
+            fix(`rooms[${i}].connections`, 'removed', `Unknown, duplicate or self links: ${[...new Set(removed)].join(', ') || 'duplicates'}`);
+        }
+        room.connections = valid;
+    });
+
+    // 5. Graph repair: every room reachable from the first one (the hub)
+    if (rooms.length > 1) {
+        const hub = rooms[0];
+        const neighbours = new Map<string, Set<string>>(rooms.map(r => [r.id, new Set<string>()]));
+        rooms.forEach(r => r.connections.forEach(target => {
+            neighbours.get(r.id)!.add(target);
+            neighbours.get(target)!.add(r.id);
+        }));
+
+        const visited = new Set<string>([hub.id]);
+        const queue = [hub.id];
+        while (queue.length > 0) {
+            neighbours.get(queue.shift()!)!.forEach(n => {
+                if (!visited.has(n)) {
+                    visited.add(n);
+                    queue.push(n);
+                }
+            });
+        }
+
+        rooms.forEach((room, i) => {
+            if (visited.has(room.id)) return;
+            room.connections.push(hub.id);
+            hub.connections.push(room.id);
+            fix(`rooms[${i}].connections`, 'repaired', `'${room.name}' was unreachable, connected to '${hub.name}'`);
+            // Everything hanging off this room is now reachable too
+            const stack = [room.id];
+            visited.add(room.id);
+            while (stack.length > 0) {
+                neighbours.get(stack.pop()!)!.forEach(n => {
+                    if (!visited.has(n)) {
+                        visited.add(n);
+                        stack.push(n);
+                    }
+                });
+            }
+        });
+    }
+
+    // 6. Everything else
+    const description = typeof input.description === 'string' ? input.description : '';
+    if (description !== input.description) fix('description', 'defaulted', 'Missing, using empty text');
+
+    const config: MapConfig = { type, tone, width, height, rooms, description };
+    if (shape) config.shape = shape;
+    if (layout) config.layout = layout;
+
+    if (input.seed !== undefined && input.seed !== null) {
+        const seed = toInteger(input.seed);
+        if (seed === null || seed < 0) fix('seed', 'removed', `'${String(input.seed)}' is not a valid seed`);
+        else config.seed = seed >>> 0;
+    }
+
+    return { config, fixes, errors: [] };
+};
+
+/**
+ * One line per fix, for logs and warning lists.
+ */
+export const describeConfigFix = (f: ConfigFix): string => `${f.path}: ${f.message}`;
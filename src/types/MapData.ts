@@ -3,8 +3,11 @@ export interface TileData {
     x: number;
     y: number;
     sprite: string;
-    rotation?: number;
+    rotation?: number; // Degrees clockwise (0, 90, 180, 270). 0 = sprite's native orientation
+    width?: number; // Footprint in tiles as placed (after rotation), x/y = top-left cell. Default 1
+    height?: number;
     layer: 'floor' | 'wall' | 'furniture';
+    level?: number; // Floor of the building (0 = ground). Omitted on single-level maps
 }
 
 export type ZoneType = 'wall' | 'center' | 'doorway';
@@ -19,6 +22,16 @@ export interface RoomData {
     type: string;
     zones?: { x: number, y: number, type: ZoneType }[];
     doors?: { x: number, y: number }[]; // Explicit door metadata
+    tiles?: { x: number, y: number }[]; // Exact floor tiles for irregular rooms (x/y/width/height is then the bounding box)
+    level?: number;
+}
+
+// Stair tile shared by two adjacent levels (same x/y on both)
+export interface StairLink {
+    x: number;
+    y: number;
+    lower: number;
+    upper: number;
 }
 
 export interface MapData {
@@ -26,4 +39,39 @@ export interface MapData {
     height: number;
     tiles: TileData[];
     rooms: RoomData[];
+    seed: number; // Seed actually used, so the map can be reproduced
+    levels?: number[]; // Sorted level numbers. Only set on multi-level maps
+    stairs?: StairLink[];
+    costGrids?: Record<number, number[][]>; // Movement cost per cell, keyed by level (0 on single-level maps)
 }
+
+// Movement costs used in MapData.costGrids
+export const CELL_BLOCKED = 0; // Walls, blocking furniture, outside the map
+export const CELL_OPEN = 1;
+export const CELL_DIFFICULT = 2; // Water, mud: every square costs double
+
+/**
+ * Returns a single-level view of the map (tiles/rooms of that level only).
+ * Single-level maps are returned unchanged.
+ */
+export const getLevelView = (mapData: MapData, level: number): MapData => {
+    if (!mapData.levels) return mapData;
+    return {
+        ...mapData,
+        tiles: mapData.tiles.filter(t => (t.level ?? 0) === level),
+        rooms: mapData.rooms.filter(r => (r.level ?? 0) === level)
+    };
+};
+
+/**
+ * Grid cells covered by a tile: its whole footprint for multi-tile furniture.
+ */
+export const getFootprint = (tile: TileData): { x: number, y: number }[] => {
+    const cells: { x: number, y: number }[] = [];
+    for (let dy = 0; dy < (tile.height ?? 1); dy++) {
+        for (let dx = 0; dx < (tile.width ?? 1); dx++) {
+            cells.push({ x: tile.x + dx, y: tile.y + dy });
+        }
+    }
+    return cells;
+};
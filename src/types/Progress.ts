@@ -0,0 +1,18 @@
+// Live generation progress. Sent by the API (NDJSON stream) and the layout worker
+// (Comlink-proxied callback) as each phase finishes; the UI times the gap between events.
+export interface ProgressEvent {
+    phase: string; // e.g. 'model', 'fallback', 'validation', 'strategy', 'rooms', 'walls', 'doors', 'furniture', 'tiles'
+    message: string;
+}
+
+export type ProgressCallback = (event: ProgressEvent) => void;
+
+export const NO_PROGRESS: ProgressCallback = () => {};
+
+// One row of the phase list in App
+export interface ProgressEntry extends ProgressEvent {
+    source: 'api' | 'worker';
+    at: number; // ms, performance.now()
+    duration: number; // ms since the previous entry (or the start of the run)
+    failed?: boolean;
+}
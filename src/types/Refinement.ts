@@ -0,0 +1,19 @@
+import { MapConfig } from './MapConfig';
+import { ConfigFix } from './MapConfigSchema';
+
+// Response of /api/refine: the edited config (same room ids, same seed) and what changed
+export interface RefineResult {
+    config: MapConfig;
+    fixes: ConfigFix[];
+    provider: string;
+    summary: string; // One sentence from the director
+    changes: string[]; // From describeConfigChanges
+}
+
+// One entry of the edit history in the refine panel. The config is kept so any step can be restored.
+export interface RefineStep {
+    instruction: string; // The prompt for the first step
+    summary: string;
+    changes: string[];
+    config: MapConfig; // Seeded: regenerating it gives the same map
+}
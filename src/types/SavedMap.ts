@@ -0,0 +1,25 @@
+import { MapConfig, ToneType } from './MapConfig';
+import { MapData } from './MapData';
+
+// A map kept in the library (IndexedDB) or written to a .neurpg.json file.
+// Reopening it needs neither the AI nor the generator.
+export interface SavedMap {
+    id: string;
+    name: string;
+    prompt: string;
+    tone: ToneType;
+    config: MapConfig;
+    mapData: MapData; // Stored without costGrids (derived, rebuilt on open)
+    thumbnail?: string; // Small PNG data URL
+    createdAt: number; // ms since epoch
+    updatedAt: number;
+}
+
+// Bump when SavedMap/MapData change shape, and add a migration in MapFile
+export const SAVED_MAP_VERSION = 1;
+
+export interface SavedMapFile {
+    format: 'neurpg-map';
+    version: number;
+    map: SavedMap;
+}
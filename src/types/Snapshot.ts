@@ -0,0 +1,8 @@
+// Offscreen render request sent to MainScene (PHASER_REQUEST_SNAPSHOT -> PHASER_SNAPSHOT)
+export interface SnapshotOptions {
+    pixelsPerSquare: number;
+    grid?: boolean; // Thin clean grid (not the red debug grid)
+    labels?: boolean; // Room names
+    tone?: boolean; // Active tone + lighting baked in
+    region?: { x: number, y: number, width: number, height: number }; // Squares. Whole level if omitted
+}
@@ -0,0 +1,24 @@
+// Tokens are owned by the React initiative tracker and mirrored into MainScene
+export type TokenKind = 'player' | 'monster';
+
+export interface Token {
+    id: string;
+    name: string;
+    kind: TokenKind;
+    color: string; // '#rrggbb'
+    hp: number;
+    maxHp: number;
+    conditions: string[]; // e.g. 'prone', 'poisoned'
+    initiative: number;
+    vision?: number; // Sight radius in squares for fog of war (players only). Default 12 (60 ft)
+    x: number; // Grid cell. -1 until MainScene drops the token on the map
+    y: number;
+    level: number;
+}
+
+// Detail of PHASER_TOKEN_MOVED (MainScene -> React)
+export interface TokenMove {
+    id: string;
+    x: number;
+    y: number;
+}
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JobManager } from './JobManager';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+describe('JobManager', () => {
+    afterEach(() => {
+        JobManager.cancel();
+        vi.useRealTimers();
+    });
+
+    it('aborts the running job when a new one starts', () => {
+        const first = JobManager.start('Generate');
+        const second = JobManager.start('Refine');
+
+        expect(first.signal.aborted).toBe(true);
+        expect(JobManager.isCancellation(first.signal.reason)).toBe(true);
+        expect(JobManager.isSuperseded(first)).toBe(true);
+        expect(JobManager.isCurrent(first)).toBe(false);
+        expect(JobManager.isCurrent(second)).toBe(true);
+    });
+
+    it('cancels only when something is running', () => {
+        const job = JobManager.start('Generate');
+        expect(JobManager.cancel()).toBe(true);
+        expect(job.signal.aborted).toBe(true);
+        expect(JobManager.isSuperseded(job)).toBe(false);
+        expect(JobManager.cancel()).toBe(false);
+    });
+
+    it('times a phase out without aborting the job', () => {
+        vi.useFakeTimers();
+        const job = JobManager.start('Generate');
+        const phase = JobManager.phase(job, 'layout', 1000);
+
+        vi.advanceTimersByTime(1000);
+        expect((phase.signal.reason as DOMException).name).toBe('TimeoutError');
+        expect(job.signal.aborted).toBe(false);
+    });
+
+    it('aborts a phase with its job, and not after it is done', () => {
+        const job = JobManager.start('Generate');
+        const finished = JobManager.phase(job, 'director', 1000);
+        finished.done();
+        const running = JobManager.phase(job, 'layout', 1000);
+
+        JobManager.cancel();
+        expect(running.signal.aborted).toBe(true);
+        expect(finished.signal.aborted).toBe(false);
+        running.done();
+    });
+});
@@ -0,0 +1,86 @@
+// Generation jobs (AI call + layout) with ids. Only the latest job may draw: starting a new
+// one cancels the running one, and results of superseded jobs are dropped by the caller.
+
+// Per-phase limits (ms). A phase that runs longer is aborted like a cancel
+export const PHASE_TIMEOUTS = {
+    director: 60000, // AI call, all providers and fallbacks included
+    layout: 30000 // Worker generation
+};
+
+export interface Job {
+    id: number;
+    label: string;
+    signal: AbortSignal; // Aborts on cancel or when superseded
+}
+
+export class JobManager {
+    private static active: { job: Job, controller: AbortController } | null = null;
+    private static nextId = 1;
+
+    /**
+     * Starts a job. The running one (if any) is aborted as superseded.
+     */
+    static start(label: string): Job {
+        const controller = new AbortController();
+        const job: Job = { id: this.nextId++, label, signal: controller.signal };
+        if (this.active) {
+            console.log(`[JobManager] Job #${this.active.job.id} superseded by #${job.id} (${label})`);
+            this.active.controller.abort(new DOMException(`Superseded by job #${job.id}`, 'AbortError'));
+        }
+        this.active = { job, controller };
+        return job;
+    }
+
+    /**
+     * Cancels the running job. Returns false when nothing was running.
+     */
+    static cancel(): boolean {
+        if (!this.active) return false;
+        console.log(`[JobManager] Job #${this.active.job.id} cancelled`);
+        this.active.controller.abort(new DOMException('Cancelled', 'AbortError'));
+        this.active = null;
+        return true;
+    }
+
+    static finish(job: Job) {
+        if (this.active?.job.id === job.id) this.active = null;
+    }
+
+    // A newer job took over (as opposed to a plain cancel)
+    static isSuperseded(job: Job): boolean {
+        return this.active !== null && this.active.job.id !== job.id;
+    }
+
+    // False once the job was cancelled or a newer job started: its results must not be drawn
+    static isCurrent(job: Job): boolean {
+        return this.active?.job.id === job.id && !job.signal.aborted;
+    }
+
+    /**
+     * Signal for one phase of a job: aborts with the job, or with a TimeoutError after `timeoutMs`.
+     * Call `done` when the phase ends to clear the timer.
+     */
+    static phase(job: Job, name: string, timeoutMs: number): { signal: AbortSignal, done: () => void } {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(job.signal.reason);
+        const timer = setTimeout(() => {
+            console.warn(`[JobManager] Job #${job.id}: ${name} timed out`);
+            controller.abort(new DOMException(`${name} timed out after ${timeoutMs / 1000} s`, 'TimeoutError'));
+        }, timeoutMs);
+
+        if (job.signal.aborted) onAbort();
+        else job.signal.addEventListener('abort', onAbort, { once: true });
+
+        return {
+            signal: controller.signal,
+            done: () => {
+                clearTimeout(timer);
+                job.signal.removeEventListener('abort', onAbort);
+            }
+        };
+    }
+
+    static isCancellation(error: unknown): boolean {
+        return error instanceof DOMException && error.name === 'AbortError';
+    }
+}
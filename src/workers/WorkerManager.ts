@@ -5,12 +5,55 @@ import type { LayoutWorker } from './layout.worker';
 // Vite worker import syntax
 import Worker from './layout.worker?worker';
 
+let rawWorker: Worker | null = null;
 let workerInstance: Comlink.Remote<LayoutWorker> | null = null;
 
+// Tail of the worker queue: each call starts when the previous one settled
+let queue: Promise<unknown> = Promise.resolve();
+
 export const getWorker = (): Comlink.Remote<LayoutWorker> => {
   if (!workerInstance) {
-    const worker = new Worker();
-    workerInstance = Comlink.wrap<LayoutWorker>(worker);
+    rawWorker = new Worker();
+    workerInstance = Comlink.wrap<LayoutWorker>(rawWorker);
   }
   return workerInstance;
 };
+
+// Kills the worker mid-task (a runaway layout can't be interrupted any other way).
+// The next getWorker() spawns a fresh one.
+export const terminateWorker = () => {
+  if (!rawWorker) return;
+  console.warn('[WorkerManager] Terminating layout worker');
+  workerInstance![Comlink.releaseProxy]();
+  rawWorker.terminate();
+  rawWorker = null;
+  workerInstance = null;
+};
+
+/**
+ * Queues a call on the layout worker: one at a time, in order. When `signal` aborts
+ * (cancel or timeout) the worker is terminated and the call rejects with the abort reason;
+ * queued calls then run on a fresh worker.
+ */
+export const runOnWorker = <T>(task: (worker: Comlink.Remote<LayoutWorker>) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  const run = () => new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      terminateWorker();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    task(getWorker())
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+
+  const result = queue.then(run, run);
+  queue = result.catch(() => undefined);
+  return result;
+};
@@ -1,7 +1,14 @@
 import * as Comlink from 'comlink';
 import { MapConfig } from '../types/MapConfig';
+import { validateMapConfig, describeConfigFix } from '../types/MapConfigSchema';
+import { GenerationResult, createEmptyReport } from '../types/GenerationReport';
+import { ProgressCallback, NO_PROGRESS } from '../types/Progress';
+import { GeneratorFactory, GeneratorOptions } from '../generators/MapGenerators';
+import { SeededRandom } from '../generators/SeededRandom';
+import { MapAnalyzer } from '../generators/MapAnalyzer';
 import { MapData } from '../types/MapData';
-import { GeneratorFactory } from '../generators/MapGenerators';
+import { TiledExporter } from '../exporters/TiledExporter';
+import { VttExporter } from '../exporters/VttExporter';
 
 export class LayoutWorker {
   // Simulating a heavy calculation
@@ -23,18 +30,58 @@ export class LayoutWorker {
     return message;
   }
 
-  // REAL Generation
-  generateMap(config: MapConfig): MapData {
-    console.log(`Worker: Generating ${config.type} map...`);
+  // REAL Generation. `onProgress` is a Comlink.proxy'd callback from the main thread,
+  // `options` swaps generator tables (e.g. a custom biome table for caves)
+  generateMap(input: MapConfig, onProgress: ProgressCallback = NO_PROGRESS, options: GeneratorOptions = {}): GenerationResult {
     try {
-        const generator = GeneratorFactory.getGenerator(config.type);
-        const mapData = generator.generate(config);
-        return mapData;
+        return this.runGeneration(input, onProgress, options);
+    } finally {
+        // Every proxied callback opens a MessagePort; release it so the main thread drops its listener
+        (onProgress as Partial<Comlink.Remote<ProgressCallback>>)[Comlink.releaseProxy]?.();
+    }
+  }
+
+  private runGeneration(input: MapConfig, onProgress: ProgressCallback, options: GeneratorOptions): GenerationResult {
+    // Reject (or repair) bad configs here, not halfway through a generator
+    const { config, fixes, errors } = validateMapConfig(input);
+    if (!config) throw new Error(`Invalid map config: ${errors.join('; ')}`);
+    fixes.forEach(f => console.warn(`Worker: Config fix ${describeConfigFix(f)}`));
+    onProgress({ phase: 'validation', message: fixes.length ? `${fixes.length} config fixes` : 'Config valid' });
+
+    const seed = config.seed ?? SeededRandom.randomSeed();
+    console.log(`Worker: Generating ${config.type} map (seed ${seed})...`);
+    try {
+        const generator = GeneratorFactory.getGenerator(config.type, options);
+        const report = createEmptyReport();
+        report.configFixes = fixes;
+        const mapData = generator.generate(config, new SeededRandom(seed), report, onProgress);
+
+        // Post-generation validation (keeps the rooms a generator already knows it couldn't join)
+        report.unreachableRooms = [...new Set([...report.unreachableRooms, ...MapAnalyzer.findUnreachableRooms(mapData)])];
+        mapData.costGrids = MapAnalyzer.buildCostGrids(mapData);
+        onProgress({ phase: 'analysis', message: `Reachability and cost grids, ${report.unreachableRooms.length} unreachable rooms` });
+
+        return { mapData, report };
     } catch (e) {
         console.error("Worker Generation Error:", e);
         throw e;
     }
   }
+
+  // Tiled export (.tmj = JSON, .tmx = XML)
+  exportTiled(mapData: MapData, format: 'json' | 'tmx'): string {
+    return format === 'tmx'
+        ? TiledExporter.toTMX(mapData)
+        : JSON.stringify(TiledExporter.toJSON(mapData), null, 1);
+  }
+
+  // Virtual tabletop export of one level. `image` is the rendered level (PNG data URL)
+  exportVtt(mapData: MapData, level: number, format: 'dd2vtt' | 'foundry', image: string, pixelsPerGrid: number, imagePath: string): string {
+    const exported = format === 'dd2vtt'
+        ? VttExporter.toDd2vtt(mapData, level, image, pixelsPerGrid)
+        : VttExporter.toFoundryScene(mapData, level, `NeuRPG ${mapData.seed}`, imagePath, pixelsPerGrid);
+    return JSON.stringify(exported);
+  }
 }
 
 Comlink.expose(new LayoutWorker());